@@ -4,4 +4,8 @@ module.exports = {
     roots: ['<rootDir>/src'],
     testMatch: ['**/*.test.ts'],
     moduleFileExtensions: ['ts', 'js'],
+    // Source imports use .js extensions for the browser; map them back to .ts
+    moduleNameMapper: {
+        '^(\\.{1,2}/.*)\\.js$': '$1',
+    },
 };
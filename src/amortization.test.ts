@@ -0,0 +1,139 @@
+import {
+    adjustArmRate,
+    buildAmortizationSchedule,
+    buildLoanSchedule,
+    calculateRefinanceBreakEven,
+    DEFAULT_ARM,
+    LoanStructure,
+} from './amortization';
+import { calculateMonthlyMortgage, calculateMortgageBalance } from './calculator';
+
+describe('buildAmortizationSchedule', () => {
+    it('matches the closed-form payment and balance for a fixed loan', () => {
+        const schedule = buildAmortizationSchedule(1000000, 0.06);
+        const payment = calculateMonthlyMortgage(1000000, 0.06, 30);
+
+        expect(schedule).toHaveLength(360);
+        expect(schedule[0].payment).toBeCloseTo(payment, 6);
+        expect(schedule[119].balance).toBeCloseTo(calculateMortgageBalance(1000000, 0.06, 120), 4);
+        expect(schedule[359].balance).toBe(0);
+    });
+
+    it('pays off a 15-year loan in 180 months with a higher payment', () => {
+        const schedule = buildAmortizationSchedule(500000, 0.05, { type: 'fixed', termYears: 15 });
+
+        expect(schedule).toHaveLength(180);
+        expect(schedule[0].payment).toBeCloseTo(calculateMonthlyMortgage(500000, 0.05, 15), 6);
+        expect(schedule[179].balance).toBe(0);
+    });
+
+    it('charges interest only, then amortizes over the remaining term', () => {
+        const loan: LoanStructure = { type: 'fixed', termYears: 30, interestOnlyYears: 10 };
+        const schedule = buildAmortizationSchedule(1000000, 0.06, loan);
+
+        expect(schedule[0].payment).toBeCloseTo(5000, 6);
+        expect(schedule[119].balance).toBe(1000000);
+        expect(schedule[120].payment).toBeCloseTo(calculateMonthlyMortgage(1000000, 0.06, 20), 6);
+        expect(schedule[359].balance).toBe(0);
+    });
+
+    it('subsidizes a 2-1 buydown for two years at the reduced rates', () => {
+        const loan: LoanStructure = { type: 'fixed', termYears: 30, buydown: '2-1' };
+        const schedule = buildAmortizationSchedule(1000000, 0.07, loan);
+        const noteBalance = buildAmortizationSchedule(1000000, 0.07)[35].balance;
+
+        expect(schedule[0].payment).toBeCloseTo(calculateMonthlyMortgage(1000000, 0.05, 30), 6);
+        expect(schedule[12].subsidy).toBeGreaterThan(0);
+        expect(schedule[12].subsidy).toBeLessThan(schedule[0].subsidy);
+        expect(schedule[24].subsidy).toBe(0);
+        expect(schedule[24].payment).toBeCloseTo(calculateMonthlyMortgage(1000000, 0.07, 30), 6);
+        // The loan itself amortizes at the note rate
+        expect(schedule[35].balance).toBeCloseTo(noteBalance, 6);
+    });
+
+    it('adjusts an ARM after the fixed period within its caps', () => {
+        const loan: LoanStructure = {
+            type: 'arm',
+            termYears: 30,
+            arm: { ...DEFAULT_ARM, indexPath: [0.07] }, // Fully indexed 9.75%
+        };
+        const schedule = buildAmortizationSchedule(1000000, 0.06, loan);
+
+        expect(schedule[83].rate).toBe(0.06); // Month 84: still fixed
+        expect(schedule[84].rate).toBeCloseTo(0.08, 10); // +2% periodic cap
+        expect(schedule[96].rate).toBeCloseTo(0.0975, 10);
+        expect(schedule[84].payment).toBeGreaterThan(schedule[83].payment);
+        expect(schedule[359].balance).toBe(0);
+    });
+});
+
+describe('adjustArmRate', () => {
+    it('limits increases to the lifetime cap', () => {
+        const arm = { ...DEFAULT_ARM, indexPath: [0.15], periodicCap: 0.1 };
+        expect(adjustArmRate(arm, 0.06, 0.06, 8)).toBeCloseTo(0.11, 10);
+    });
+
+    it('follows the index path down by at most the periodic cap', () => {
+        const arm = { ...DEFAULT_ARM, indexPath: [0.04, 0.04, 0.04, 0.04, 0.04, 0.04, 0.04, 0] };
+        expect(adjustArmRate(arm, 0.06, 0.06, 7)).toBeCloseTo(0.0675, 10);
+        expect(adjustArmRate(arm, 0.06, 0.06, 8)).toBeCloseTo(0.04, 10);
+    });
+
+    it('never falls below the margin', () => {
+        const arm = { ...DEFAULT_ARM, indexPath: [-0.01], periodicCap: 0.1 };
+        expect(adjustArmRate(arm, 0.06, 0.06, 8)).toBe(0.0275);
+    });
+
+    it('holds the fully indexed rate when the path is empty', () => {
+        const arm = { ...DEFAULT_ARM, indexPath: [] };
+        expect(adjustArmRate(arm, 0.06, 0.06, 8)).toBeCloseTo(0.06, 10);
+    });
+});
+
+describe('buildLoanSchedule', () => {
+    const refinance = { year: 4, rate: 0.05, termYears: 30, closingCost: 6000 };
+
+    it('restarts amortization from the balance at the refinance', () => {
+        const original = buildAmortizationSchedule(800000, 0.07);
+        const { rows, refinances } = buildLoanSchedule(800000, 0.07, undefined, [refinance]);
+        const payoff = original[35].balance;
+
+        expect(rows.slice(0, 36)).toEqual(original.slice(0, 36));
+        expect(rows[36].month).toBe(37);
+        expect(rows[36].rate).toBe(0.05);
+        expect(rows[36].payment).toBeCloseTo(calculateMonthlyMortgage(payoff, 0.05, 30), 6);
+        expect(rows).toHaveLength(36 + 360);
+
+        expect(refinances).toHaveLength(1);
+        expect(refinances[0].month).toBe(37);
+        expect(refinances[0].payoffBalance).toBeCloseTo(payoff, 6);
+        expect(refinances[0].oldPayment).toBeCloseTo(original[0].payment, 6);
+        expect(refinances[0].interestSaved).toBeGreaterThan(0);
+    });
+
+    it('adds cash-out to the new loan balance', () => {
+        const { rows, refinances } = buildLoanSchedule(800000, 0.07, undefined, [
+            { ...refinance, cashOut: 100000 },
+        ]);
+        const opening = rows[36].balance + rows[36].principal;
+        expect(opening).toBeCloseTo(refinances[0].payoffBalance + 100000, 6);
+    });
+
+    it('skips refinances after the loan is paid off', () => {
+        const loan: LoanStructure = { type: 'fixed', termYears: 15 };
+        const { rows, refinances } = buildLoanSchedule(800000, 0.07, loan, [{ ...refinance, year: 20 }]);
+        expect(rows).toHaveLength(180);
+        expect(refinances).toEqual([]);
+    });
+});
+
+describe('calculateRefinanceBreakEven', () => {
+    it('divides the closing cost by the monthly payment savings', () => {
+        expect(calculateRefinanceBreakEven(5000, 4500, 6000)).toBe(12);
+        expect(calculateRefinanceBreakEven(5000, 4600, 6000)).toBe(15);
+    });
+
+    it('never breaks even when the payment does not go down', () => {
+        expect(calculateRefinanceBreakEven(5000, 5200, 6000)).toBeNull();
+    });
+});
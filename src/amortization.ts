@@ -0,0 +1,237 @@
+// Month-by-month amortization for fixed, adjustable, interest-only and bought-down loans
+
+export type LoanType = 'fixed' | 'arm';
+export type Buydown = 'none' | '2-1' | '1-0';
+
+// Adjustable-rate terms; the initial rate is the mortgage rate input
+export interface ArmTerms {
+    initialYears: number; // Fixed period, e.g. 7 for a 7/1 ARM
+    adjustmentMonths: number; // 12 for x/1, 6 for x/6
+    margin: number; // Added to the index at each adjustment
+    indexPath: number[]; // Expected index rate by loan year; the last value holds
+    periodicCap: number; // Max rate change per adjustment
+    lifetimeCap: number; // Max rate increase over the initial rate
+}
+
+export interface LoanStructure {
+    type: LoanType;
+    termYears: number;
+    interestOnlyYears?: number; // Interest-only payments before amortizing over the rest of the term
+    buydown?: Buydown; // Temporary buydown, funded by the seller
+    arm?: ArmTerms;
+}
+
+export interface AmortizationRow {
+    month: number; // 1-based
+    rate: number; // Note rate for the month
+    payment: number; // Paid by the borrower (after any buydown subsidy)
+    interest: number; // Accrued at the note rate
+    principal: number;
+    subsidy: number; // Buydown funds covering part of the payment
+    balance: number; // After this payment
+}
+
+export const DEFAULT_LOAN: LoanStructure = { type: 'fixed', termYears: 30 };
+
+// Typical 7/1 ARM with 2/2/5 caps
+export const DEFAULT_ARM: ArmTerms = {
+    initialYears: 7,
+    adjustmentMonths: 12,
+    margin: 0.0275,
+    indexPath: [0.04],
+    periodicCap: 0.02,
+    lifetimeCap: 0.05,
+};
+
+// Rate reduction by loan year: a 2-1 buydown pays 2 points below the note rate in year 1, 1 in year 2
+export const BUYDOWN_REDUCTIONS: Record<Buydown, number[]> = {
+    none: [],
+    '2-1': [0.02, 0.01],
+    '1-0': [0.01],
+};
+
+// Level payment that pays off the balance over the remaining months
+function amortizingPayment(balance: number, annualRate: number, months: number): number {
+    const monthlyRate = annualRate / 12;
+    if (monthlyRate === 0) {
+        return balance / months;
+    }
+    const growth = Math.pow(1 + monthlyRate, months);
+    return (balance * monthlyRate * growth) / (growth - 1);
+}
+
+// Rate after an ARM adjustment: fully indexed rate, limited by the periodic and lifetime caps
+// and floored at the margin
+export function adjustArmRate(
+    arm: ArmTerms,
+    currentRate: number,
+    initialRate: number,
+    loanYear: number
+): number {
+    const index = arm.indexPath.length > 0
+        ? arm.indexPath[Math.min(loanYear - 1, arm.indexPath.length - 1)]
+        : initialRate - arm.margin;
+    const fullyIndexed = index + arm.margin;
+
+    const periodic = Math.min(
+        currentRate + arm.periodicCap,
+        Math.max(currentRate - arm.periodicCap, fullyIndexed)
+    );
+    return Math.max(arm.margin, Math.min(initialRate + arm.lifetimeCap, periodic));
+}
+
+// Build the full payment schedule. Rows stop once the loan is paid off.
+export function buildAmortizationSchedule(
+    principal: number,
+    initialRate: number,
+    loan: LoanStructure = DEFAULT_LOAN
+): AmortizationRow[] {
+    const rows: AmortizationRow[] = [];
+    const totalMonths = Math.round(loan.termYears * 12);
+    const interestOnlyMonths = Math.round((loan.interestOnlyYears ?? 0) * 12);
+    const reductions = BUYDOWN_REDUCTIONS[loan.buydown ?? 'none'];
+    const arm = loan.type === 'arm' ? loan.arm : undefined;
+    const firstAdjustment = arm ? Math.round(arm.initialYears * 12) + 1 : Infinity;
+
+    let balance = principal;
+    let rate = initialRate;
+    let notePayment = 0;
+    let recast = true;
+
+    for (let month = 1; month <= totalMonths && balance > 0; month++) {
+        const loanYear = Math.ceil(month / 12);
+        const remainingMonths = totalMonths - month + 1;
+
+        // ARM adjustment dates
+        if (arm && month >= firstAdjustment && (month - firstAdjustment) % arm.adjustmentMonths === 0) {
+            const adjusted = adjustArmRate(arm, rate, initialRate, loanYear);
+            if (adjusted !== rate) {
+                rate = adjusted;
+                recast = true;
+            }
+        }
+        // Amortization starts after the interest-only period
+        if (month === interestOnlyMonths + 1) {
+            recast = true;
+        }
+
+        const interestOnly = month <= interestOnlyMonths;
+        const paymentAt = (annualRate: number) => interestOnly
+            ? balance * (annualRate / 12)
+            : amortizingPayment(balance, annualRate, remainingMonths);
+
+        if (interestOnly || recast) {
+            notePayment = paymentAt(rate);
+            recast = false;
+        }
+
+        const interest = balance * (rate / 12);
+        const principalPaid = month === totalMonths
+            ? balance
+            : Math.min(balance, Math.max(0, notePayment - interest));
+        const scheduledPayment = month === totalMonths ? interest + principalPaid : notePayment;
+
+        // Temporary buydown: the seller's subsidy covers the gap to a lower-rate payment
+        const reduction = reductions[loanYear - 1] ?? 0;
+        const subsidy = reduction > 0
+            ? Math.max(0, scheduledPayment - paymentAt(Math.max(0, rate - reduction)))
+            : 0;
+
+        balance -= principalPaid;
+        rows.push({
+            month,
+            rate,
+            payment: scheduledPayment - subsidy,
+            interest,
+            principal: principalPaid,
+            subsidy,
+            balance: Math.max(0, balance),
+        });
+    }
+
+    return rows;
+}
+
+// Refinance into a new fixed-rate loan at the start of a given year
+export interface RefinanceEvent {
+    year: number; // First year paid under the new loan (2 = after one year of payments)
+    rate: number; // Annual rate as decimal
+    termYears: number;
+    closingCost: number; // Paid in cash by the buyer
+    cashOut?: number; // Borrowed on top of the payoff balance
+}
+
+export interface RefinanceSummary {
+    event: RefinanceEvent;
+    month: number; // First payment month under the new loan
+    payoffBalance: number; // Old loan balance paid off by the new loan
+    oldPayment: number;
+    newPayment: number;
+    interestSaved: number; // Remaining interest on the old loan minus all interest on the new one
+    breakEvenMonth: number | null; // Months until payment savings cover the closing cost
+}
+
+export interface LoanSchedule {
+    rows: AmortizationRow[];
+    refinances: RefinanceSummary[];
+}
+
+// Months after refinancing until the lower payment has repaid the closing cost,
+// or null if the payment does not go down
+export function calculateRefinanceBreakEven(
+    oldPayment: number,
+    newPayment: number,
+    closingCost: number
+): number | null {
+    const monthlySavings = oldPayment - newPayment;
+    if (monthlySavings <= 0) {
+        return null;
+    }
+    return Math.ceil(closingCost / monthlySavings);
+}
+
+// Borrower-paid interest over a run of payments
+function totalInterest(rows: AmortizationRow[]): number {
+    return rows.reduce((sum, row) => sum + row.interest - row.subsidy, 0);
+}
+
+// Schedule for the original loan with each refinance restarting amortization from the
+// balance at that point. Refinances after the loan is paid off are skipped.
+export function buildLoanSchedule(
+    principal: number,
+    initialRate: number,
+    loan: LoanStructure = DEFAULT_LOAN,
+    refinances: RefinanceEvent[] = []
+): LoanSchedule {
+    let rows = buildAmortizationSchedule(principal, initialRate, loan);
+    const summaries: RefinanceSummary[] = [];
+
+    for (const event of [...refinances].sort((a, b) => a.year - b.year)) {
+        const month = Math.round((event.year - 1) * 12) + 1;
+        if (month < 1 || month > rows.length) continue;
+
+        const kept = rows.slice(0, month - 1);
+        const replaced = rows.slice(month - 1);
+        const payoffBalance = kept.length > 0 ? kept[kept.length - 1].balance : principal;
+        const newRows = buildAmortizationSchedule(
+            payoffBalance + (event.cashOut ?? 0),
+            event.rate,
+            { type: 'fixed', termYears: event.termYears }
+        ).map(row => ({ ...row, month: row.month + month - 1 }));
+
+        const oldPayment = replaced[0].payment;
+        const newPayment = newRows[0]?.payment ?? 0;
+        summaries.push({
+            event,
+            month,
+            payoffBalance,
+            oldPayment,
+            newPayment,
+            interestSaved: totalInterest(replaced) - totalInterest(newRows),
+            breakEvenMonth: calculateRefinanceBreakEven(oldPayment, newPayment, event.closingCost),
+        });
+        rows = [...kept, ...newRows];
+    }
+
+    return { rows, refinances: summaries };
+}
@@ -0,0 +1,167 @@
+import { readFileSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { calculateNetWorth, CalculatorInputs, YearlyData } from './calculator';
+import { CLI_DEFAULT_INPUTS } from './commandline';
+import { DEFAULT_TRANSACTION_COSTS } from './transactions';
+
+// Yearly results pinned from the scenarios in calculator.test.ts, so changes to the engine's
+// time stepping show up as drift. Run with UPDATE_BASELINE=1 to re-pin after an intended change.
+const BASELINE_FILE = join(__dirname, 'calculator.baseline.json');
+
+const PINNED_FIELDS = [
+    'buyNetWorth',
+    'rentNetWorth',
+    'homeValue',
+    'mortgageBalance',
+    'rentingInvestments', // The owner's account is covered by buyNetWorth; it starts small and late
+    'annualOwnershipCost',
+    'annualTaxSavings',
+] as const;
+
+// Every scenario is pinned from the monthly engine, so the only drift allowed is a pinned
+// value rounding the other way
+const ABSOLUTE_TOLERANCE = 1;
+
+// The calculator.test.ts base: page defaults with income and investment taxes and PMI left out
+const base: CalculatorInputs = {
+    ...CLI_DEFAULT_INPUTS,
+    federalTaxRate: undefined,
+    stateTaxRate: undefined,
+    federalCapitalGainsRate: undefined,
+    dividendYield: undefined,
+    pmiRate: undefined,
+};
+const taxed: CalculatorInputs = {
+    ...base,
+    filingStatus: 'married',
+    federalTaxRate: 0.24,
+    stateTaxRate: 0.093,
+};
+const cheapHome: CalculatorInputs = {
+    ...base,
+    purchasePrice: 400000,
+    mortgageRate: 0.05,
+    monthlyRent: 5000,
+    homeAppreciationRate: 0.03,
+};
+const smallerHome: CalculatorInputs = { ...base, purchasePrice: 1000000, mortgageRate: 0.06 };
+
+const SCENARIOS: Record<string, { inputs: CalculatorInputs; years: number }> = {
+    'base': { inputs: base, years: 30 },
+    'high rent growth': {
+        inputs: { ...base, downPaymentPercent: 10, monthlyRent: 4500, homeAppreciationRate: 0.055, rentGrowthRate: 0.07 },
+        years: 30,
+    },
+    'income taxes': { inputs: taxed, years: 30 },
+    'PMI': {
+        inputs: { ...base, purchasePrice: 1000000, downPaymentPercent: 10, pmiRate: 0.006 },
+        years: 15,
+    },
+    'PMI cancelled at appraisal': {
+        inputs: { ...base, purchasePrice: 1000000, downPaymentPercent: 10, pmiRate: 0.006, pmiCancelAtAppraisal: true },
+        years: 15,
+    },
+    'owner invests the surplus': { inputs: cheapHome, years: 30 },
+    'renter invests only': { inputs: { ...cheapHome, investDifference: 'renter' }, years: 30 },
+    'HOA, insurance and PMI': {
+        inputs: { ...base, purchasePrice: 1200000, downPaymentPercent: 10, hoaMonthly: 450, insuranceAnnual: 2400, pmiRate: 0.005 },
+        years: 20,
+    },
+    'Prop 13 at 6% appreciation': { inputs: { ...base, homeAppreciationRate: 0.06 }, years: 30 },
+    'without Prop 13': { inputs: { ...base, homeAppreciationRate: 0.06, applyProp13: false }, years: 30 },
+    '15-year loan': { inputs: { ...smallerHome, loan: { type: 'fixed', termYears: 15 } }, years: 20 },
+    'interest-only': {
+        inputs: { ...smallerHome, loan: { type: 'fixed', termYears: 30, interestOnlyYears: 5 } },
+        years: 15,
+    },
+    '2-1 buydown': { inputs: { ...smallerHome, loan: { type: 'fixed', termYears: 30, buydown: '2-1' } }, years: 10 },
+    'ARM': {
+        inputs: {
+            ...smallerHome,
+            loan: {
+                type: 'arm',
+                termYears: 30,
+                arm: {
+                    initialYears: 5,
+                    adjustmentMonths: 6,
+                    margin: 0.0275,
+                    indexPath: [0.041, 0.0385, 0.05],
+                    periodicCap: 0.01,
+                    lifetimeCap: 0.05,
+                },
+            },
+        },
+        years: 15,
+    },
+    'refinance with cash-out': {
+        inputs: {
+            ...smallerHome,
+            mortgageRate: 0.07,
+            refinances: [{ year: 3, rate: 0.05, termYears: 30, closingCost: 6000, cashOut: 50000 }],
+        },
+        years: 15,
+    },
+    'itemized costs and tax on sale': {
+        inputs: {
+            ...taxed,
+            homeAppreciationRate: 0.06,
+            federalCapitalGainsRate: 0.15,
+            transactionCosts: { ...DEFAULT_TRANSACTION_COSTS, city: 'san-francisco' },
+        },
+        years: 30,
+    },
+    'investment taxes': {
+        inputs: { ...taxed, federalCapitalGainsRate: 0.15, dividendYield: 0.02 },
+        years: 30,
+    },
+    'pre-tax net worth': {
+        inputs: { ...taxed, federalCapitalGainsRate: 0.15, afterTaxNetWorth: false },
+        years: 30,
+    },
+    'real dollars': { inputs: { ...base, inflationRate: 0.03, realDollars: true }, years: 30 },
+};
+
+type PinnedRow = number[]; // Year, then PINNED_FIELDS in order
+
+function pin(data: YearlyData[]): PinnedRow[] {
+    return data.map(d => [d.year, ...PINNED_FIELDS.map(field => Math.round(d[field]))]);
+}
+
+if (process.env.UPDATE_BASELINE) {
+    const baseline = Object.fromEntries(
+        Object.entries(SCENARIOS).map(([name, { inputs, years }]) => [name, pin(calculateNetWorth(inputs, years))])
+    );
+    // One row per line keeps re-pinning diffs readable
+    const scenarios = Object.entries(baseline).map(([name, rows]) =>
+        `  ${JSON.stringify(name)}: [\n${rows.map(row => `    ${JSON.stringify(row)}`).join(',\n')}\n  ]`
+    );
+    writeFileSync(BASELINE_FILE, `{\n${scenarios.join(',\n')}\n}\n`);
+}
+
+const baseline: Record<string, PinnedRow[]> = JSON.parse(readFileSync(BASELINE_FILE, 'utf8'));
+
+describe('yearly results match the baseline', () => {
+    it('covers every scenario', () => {
+        expect(Object.keys(baseline).sort()).toEqual(Object.keys(SCENARIOS).sort());
+    });
+
+    for (const [name, { inputs, years }] of Object.entries(SCENARIOS)) {
+        it(name, () => {
+            const rows = pin(calculateNetWorth(inputs, years));
+            const pinned = baseline[name];
+            expect(rows.map(row => row[0])).toEqual(pinned.map(row => row[0]));
+
+            const drifts: string[] = [];
+            rows.forEach((row, i) => {
+                PINNED_FIELDS.forEach((field, f) => {
+                    const expected = pinned[i][f + 1];
+                    const actual = row[f + 1];
+                    if (Math.abs(actual - expected) > ABSOLUTE_TOLERANCE) {
+                        drifts.push(`year ${row[0]} ${field}: ${actual} vs pinned ${expected}`);
+                    }
+                });
+            });
+            expect(drifts).toEqual([]);
+        });
+    }
+});
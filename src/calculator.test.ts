@@ -1,10 +1,42 @@
 import {
+    BREAKEVEN_RANGES,
     calculateMonthlyMortgage,
+    calculateMonthlyNetWorth,
     calculateMortgageBalance,
     calculateNetWorth,
+    calculatePmiEndMonth,
     findCrossoverYear,
+    monthlyNetWorth,
+    prop13InflationFactor,
+    prop19BaseValue,
+    rollUpYearly,
+    simulateMonthly,
+    solveBreakeven,
+    toRealDollars,
+    yearlyNetWorth,
     CalculatorInputs,
+    SUPPLEMENTAL_BILL_MONTH,
 } from './calculator';
+import { CLI_DEFAULT_INPUTS } from './commandline';
+import {
+    calculatePurchaseCosts,
+    calculateSaleCosts,
+    DEFAULT_TRANSACTION_COSTS,
+    TransactionCosts,
+} from './transactions';
+import { analyzeCrossovers } from './crossovers';
+import { validateInputs } from './validation';
+
+// The page defaults with income and investment taxes and PMI left out; each describe adds
+// what it tests
+const baseInputs: CalculatorInputs = {
+    ...CLI_DEFAULT_INPUTS,
+    federalTaxRate: undefined,
+    stateTaxRate: undefined,
+    federalCapitalGainsRate: undefined,
+    dividendYield: undefined,
+    pmiRate: undefined,
+};
 
 describe('calculateMonthlyMortgage', () => {
     it('calculates correctly for a standard 30-year mortgage', () => {
@@ -45,22 +77,6 @@ describe('calculateMortgageBalance', () => {
 });
 
 describe('calculateNetWorth', () => {
-    const baseInputs: CalculatorInputs = {
-        purchasePrice: 1500000,
-        downPaymentPercent: 20,
-        mortgageRate: 0.065,
-        monthlyRent: 4000,
-        homeAppreciationRate: 0.04,
-        rentGrowthRate: 0.03,
-        investmentReturnRate: 0.07,
-        propertyTaxRate: 0.0115,
-        hoaMonthly: 0,
-        maintenanceRate: 0.01,
-        closingCostRate: 0.025,
-        sellingCostRate: 0.06,
-        insuranceAnnual: 0,
-    };
-
     it('returns correct number of years', () => {
         const data = calculateNetWorth(baseInputs, 10);
         expect(data.length).toBe(11); // Years 0-10
@@ -120,19 +136,11 @@ describe('calculateNetWorth', () => {
 
 describe('user scenario: high rent growth', () => {
     const inputs: CalculatorInputs = {
-        purchasePrice: 1500000,
+        ...baseInputs,
         downPaymentPercent: 10,
-        mortgageRate: 0.065,
         monthlyRent: 4500,
         homeAppreciationRate: 0.055,
         rentGrowthRate: 0.07,
-        investmentReturnRate: 0.07,
-        propertyTaxRate: 0.0115,
-        hoaMonthly: 0,
-        maintenanceRate: 0.01,
-        closingCostRate: 0.025,
-        sellingCostRate: 0.06,
-        insuranceAnnual: 0,
     };
 
     it('calculates year 0 correctly', () => {
@@ -194,4 +202,563 @@ describe('findCrossoverYear', () => {
         expect(crossover).toBeGreaterThan(1);
         expect(crossover).toBeLessThan(2);
     });
+
+    it('interpolates within a partial final year', () => {
+        // A 7.5-year horizon ends on a half-year row
+        const data = [
+            { year: 7, buyNetWorth: 100, rentNetWorth: 200 },
+            { year: 7.5, buyNetWorth: 300, rentNetWorth: 200 },
+        ] as any;
+
+        expect(findCrossoverYear(data)).toBeCloseTo(7.25);
+        expect(findCrossoverYear(data)).toBe(analyzeCrossovers(data).crossovers[0].year);
+    });
+});
+
+describe('income tax modeling', () => {
+    const inputs = baseInputs;
+
+    it('reports no tax savings when tax rates are omitted', () => {
+        const data = calculateNetWorth(inputs, 5);
+        data.forEach(d => expect(d.annualTaxSavings).toBe(0));
+    });
+
+    it('reports interest paid as payments minus principal', () => {
+        const data = calculateNetWorth(inputs, 1);
+        // $1.2M at 6.5%: first-year interest is just under $78k
+        expect(data[1].annualMortgageInterest).toBeGreaterThan(77000);
+        expect(data[1].annualMortgageInterest).toBeLessThan(78000);
+    });
+
+    it('invests the tax savings on the buyer\'s side', () => {
+        const taxed = calculateNetWorth(
+            { ...inputs, filingStatus: 'married', federalTaxRate: 0.24, stateTaxRate: 0.093 },
+            10
+        );
+        const untaxed = calculateNetWorth(inputs, 10);
+
+        expect(taxed[1].annualTaxSavings).toBeGreaterThan(0);
+        expect(taxed[10].buyingInvestments).toBeGreaterThan(untaxed[10].buyingInvestments);
+        expect(taxed[10].buyNetWorth).toBeGreaterThan(untaxed[10].buyNetWorth);
+        expect(taxed[10].rentNetWorth).toBeCloseTo(untaxed[10].rentNetWorth, 2);
+    });
+});
+
+describe('PMI', () => {
+    const inputs: CalculatorInputs = {
+        ...baseInputs,
+        purchasePrice: 1000000,
+        downPaymentPercent: 10,
+        pmiRate: 0.006,
+    };
+
+    it('is not charged with 20% down', () => {
+        expect(calculatePmiEndMonth(1000000, 800000, 0.065, 0.04)).toBeNull();
+
+        const data = calculateNetWorth({ ...inputs, downPaymentPercent: 20 }, 5);
+        data.forEach(d => expect(d.annualPmi).toBe(0));
+    });
+
+    it('cancels when the balance reaches 78% of the original value', () => {
+        const endMonth = calculatePmiEndMonth(1000000, 900000, 0.065, 0.04)!;
+        expect(calculateMortgageBalance(900000, 0.065, endMonth)).toBeLessThanOrEqual(780000);
+        expect(calculateMortgageBalance(900000, 0.065, endMonth - 1)).toBeGreaterThan(780000);
+    });
+
+    it('cancels sooner with an appraisal when the home has appreciated', () => {
+        const automatic = calculatePmiEndMonth(1000000, 900000, 0.065, 0.04)!;
+        const appraisal = calculatePmiEndMonth(1000000, 900000, 0.065, 0.04, true)!;
+        expect(appraisal).toBeLessThan(automatic);
+    });
+
+    it('keeps charging PMI when a cash-out refinance raises the balance', () => {
+        const refinances = [{ year: 3, rate: 0.055, termYears: 30, closingCost: 5000, cashOut: 60000 }];
+        const plain = calculatePmiEndMonth(1000000, 900000, 0.065, 0.04)!;
+        const refinanced = calculatePmiEndMonth(1000000, 900000, 0.065, 0.04, false, undefined, refinances)!;
+        expect(refinanced).toBeGreaterThan(plain);
+
+        const data = calculateNetWorth({ ...inputs, refinances }, 20);
+        expect(data[0].pmiEndMonth).toBe(refinanced);
+        expect(data[Math.ceil(plain / 12) + 1].annualPmi).toBeCloseTo(5400, 2);
+    });
+
+    it('adds the premium to ownership cost until it ends', () => {
+        const data = calculateNetWorth(inputs, 20);
+        const endMonth = data[0].pmiEndMonth!;
+        const endYear = Math.ceil(endMonth / 12);
+
+        // $900k × 0.6% = $5,400/yr
+        expect(data[1].annualPmi).toBeCloseTo(5400, 2);
+        expect(data[endYear].annualPmi).toBeCloseTo(450 * (endMonth - (endYear - 1) * 12), 2);
+        expect(data[endYear + 1].annualPmi).toBe(0);
+
+        const withoutPmi = calculateNetWorth({ ...inputs, pmiRate: 0 }, 20);
+        expect(data[1].annualOwnershipCost - withoutPmi[1].annualOwnershipCost).toBeCloseTo(5400, 2);
+    });
+});
+
+describe('investing the difference', () => {
+    // Rent far above the cost of owning a cheap home
+    const inputs: CalculatorInputs = {
+        ...baseInputs,
+        purchasePrice: 400000,
+        mortgageRate: 0.05,
+        monthlyRent: 5000,
+        homeAppreciationRate: 0.03,
+    };
+
+    it('owner invests the surplus when owning is cheaper', () => {
+        const data = calculateNetWorth(inputs, 10);
+
+        expect(data[0].buyingInvestments).toBe(0);
+        expect(data[10].buyingInvestments).toBeGreaterThan(data[5].buyingInvestments);
+        expect(data[10].buyNetWorth).toBeCloseTo(
+            data[10].homeEquity - data[10].homeValue * 0.06 - 10000 + data[10].buyingInvestments,
+            2
+        );
+        // Renter's lump sum is untouched by the owner's surplus
+        expect(data[10].rentingInvestments).toBeCloseTo(
+            90000 * Math.pow(1 + 0.07 / 12, 120),
+            2
+        );
+    });
+
+    it('renter-only mode draws the renter down instead', () => {
+        const symmetric = calculateNetWorth(inputs, 10);
+        const renterOnly = calculateNetWorth({ ...inputs, investDifference: 'renter' }, 10);
+
+        renterOnly.forEach(d => expect(d.buyingInvestments).toBe(0));
+        expect(renterOnly[10].rentingInvestments).toBeLessThan(symmetric[10].rentingInvestments);
+        expect(renterOnly[10].buyNetWorth).toBeLessThan(symmetric[10].buyNetWorth);
+    });
+});
+
+describe('solveBreakeven', () => {
+    const inputs = baseInputs;
+
+    const finalGap = (overrides: Partial<CalculatorInputs>, years: number) => {
+        const data = calculateNetWorth({ ...inputs, ...overrides }, years);
+        return data[years].buyNetWorth - data[years].rentNetWorth;
+    };
+
+    it('finds the appreciation rate where buy and rent tie', () => {
+        const result = solveBreakeven(inputs, 'homeAppreciationRate', 10);
+
+        expect(result.value).not.toBeNull();
+        expect(result.buyWinsAbove).toBe(true);
+        expect(Math.abs(finalGap({ homeAppreciationRate: result.value! }, 10))).toBeLessThan(1);
+    });
+
+    it('finds the maximum purchase price that breaks even', () => {
+        const result = solveBreakeven(inputs, 'purchasePrice', 15);
+
+        expect(result.value).not.toBeNull();
+        expect(result.buyWinsAbove).toBe(false);
+        expect(Math.abs(finalGap({ purchasePrice: result.value! }, 15))).toBeLessThan(1);
+    });
+
+    it('reports the winner when there is no tie in the valid range', () => {
+        // Cheap rent that never grows: renting wins at any mortgage rate
+        const result = solveBreakeven(
+            { ...inputs, monthlyRent: 1000, rentGrowthRate: 0, homeAppreciationRate: 0 },
+            'mortgageRate',
+            10
+        );
+
+        expect(result.value).toBeNull();
+        expect(result.winner).toBe('rent');
+        expect(result.range).toEqual([0.02, 0.12]);
+    });
+
+    it('searches only values the form accepts without warning', () => {
+        for (const [field, range] of Object.entries(BREAKEVEN_RANGES)) {
+            for (const value of range) {
+                expect(validateInputs({ ...inputs, [field]: value })).toEqual([]);
+            }
+        }
+    });
+});
+
+describe('ownership cost breakdown', () => {
+    it('components add up to the annual ownership cost', () => {
+        const data = calculateNetWorth({
+            purchasePrice: 1200000,
+            downPaymentPercent: 10,
+            mortgageRate: 0.065,
+            monthlyRent: 4000,
+            homeAppreciationRate: 0.04,
+            rentGrowthRate: 0.03,
+            investmentReturnRate: 0.07,
+            propertyTaxRate: 0.0115,
+            hoaMonthly: 450,
+            maintenanceRate: 0.01,
+            closingCostRate: 0.025,
+            sellingCostRate: 0.06,
+            insuranceAnnual: 2400,
+            pmiRate: 0.005,
+        }, 10);
+
+        data.slice(1).forEach(d => {
+            const sum =
+                d.annualPrincipal + d.annualMortgageInterest + d.annualPropertyTax +
+                d.annualInsurance + d.annualHoa + d.annualMaintenance + d.annualPmi +
+                d.annualRefinanceCost;
+            expect(sum).toBeCloseTo(d.annualOwnershipCost, 6);
+        });
+        expect(data[1].annualHoa).toBe(5400);
+        expect(data[1].annualInsurance).toBe(2400);
+        expect(data[2].annualPrincipal).toBeGreaterThan(data[1].annualPrincipal);
+    });
+});
+
+describe('Prop 13 savings', () => {
+    const inputs: CalculatorInputs = { ...baseInputs, homeAppreciationRate: 0.06 };
+
+    it('compares the capped tax against a market-value assessment', () => {
+        const data = calculateNetWorth(inputs, 10);
+
+        // Year 1 is assessed at the purchase price either way
+        expect(data[1].annualProp13Savings).toBeCloseTo(0, 6);
+
+        // Year 2: market value grew 6%, assessment only 2%
+        expect(data[2].annualProp13Savings).toBeCloseTo(1500000 * (1.06 - 1.02) * 0.0115, 2);
+
+        const total = data.slice(1).reduce((sum, d) => sum + d.annualProp13Savings, 0);
+        expect(data[10].cumulativeProp13Savings).toBeCloseTo(total, 6);
+    });
+
+    it('taxes market value when Prop 13 is turned off', () => {
+        const withProp13 = calculateNetWorth(inputs, 10);
+        const without = calculateNetWorth({ ...inputs, applyProp13: false }, 10);
+
+        expect(without[5].annualPropertyTax).toBeCloseTo(
+            withProp13[5].annualPropertyTax + withProp13[5].annualProp13Savings,
+            6
+        );
+        without.forEach(d => expect(d.annualProp13Savings).toBe(0));
+        expect(without[10].rentNetWorth).toBeGreaterThan(withProp13[10].rentNetWorth);
+    });
+});
+
+describe('Prop 13 assessment', () => {
+    const inputs = baseInputs;
+
+    it('lowers the assessment to market value under Prop 8 and recaptures it as prices recover', () => {
+        const path = {
+            homeAppreciation: [-0.1, -0.05, 0.15, 0.15],
+            rentGrowth: [0.03, 0.03, 0.03, 0.03],
+            investmentReturn: [0.07, 0.07, 0.07, 0.07],
+        };
+        const data = rollUpYearly(simulateMonthly(inputs, 5, path));
+
+        // Years 2 and 3 are assessed at the lower market value, with nothing saved by Prop 13
+        expect(data[2].assessedValue).toBeCloseTo(1500000 * 0.9, 0);
+        expect(data[3].assessedValue).toBeCloseTo(1500000 * 0.9 * 0.95, 0);
+        expect(data[3].annualProp13Savings).toBeCloseTo(0, 6);
+        // The recovery lifts the assessment 15%, until it meets the factored base value
+        expect(data[4].assessedValue).toBeCloseTo(1500000 * 0.9 * 0.95 * 1.15, 0);
+        expect(data[5].assessedValue).toBeCloseTo(1500000 * Math.pow(1.02, 4), 0);
+        expect(data[5].annualPropertyTax).toBeCloseTo(1500000 * Math.pow(1.02, 4) * 0.0115, 2);
+    });
+
+    it('factors the base value by CPI when inflation is under 2%', () => {
+        expect(prop13InflationFactor(0.01)).toBe(0.01);
+        expect(prop13InflationFactor(0.035)).toBe(0.02);
+        expect(prop13InflationFactor(-0.005)).toBe(-0.005);
+        expect(prop13InflationFactor()).toBe(0.02);
+
+        const lowInflation = calculateNetWorth({ ...inputs, inflationRate: 0.01 }, 5);
+        expect(lowInflation[3].assessedValue).toBeCloseTo(1500000 * Math.pow(1.01, 2), 0);
+        const highInflation = calculateNetWorth({ ...inputs, inflationRate: 0.03 }, 5);
+        expect(highInflation[3].assessedValue).toBeCloseTo(1500000 * Math.pow(1.02, 2), 0);
+    });
+
+    it('carries a Prop 19 base value over, adding any amount above the old home\'s price', () => {
+        expect(prop19BaseValue(1500000, 600000, 1400000)).toBe(700000);
+        expect(prop19BaseValue(1500000, 600000, 1800000)).toBe(600000);
+        expect(prop19BaseValue(1500000, 600000)).toBe(600000);
+        expect(prop19BaseValue(1500000, 1400000, 1000000)).toBe(1500000);
+
+        const transferred = calculateNetWorth({ ...inputs, transferredBaseValue: 600000, soldHomePrice: 1400000 }, 5);
+        expect(transferred[1].assessedValue).toBe(700000);
+        expect(transferred[2].assessedValue).toBeCloseTo(700000 * 1.02, 6);
+        expect(transferred[1].annualProp13Savings).toBeCloseTo((1500000 - 700000) * 0.0115, 2);
+        // Lower tax narrows what the renter invests, so buying gains ground
+        const plain = calculateNetWorth(inputs, 5);
+        expect(transferred[5].buyNetWorth - transferred[5].rentNetWorth)
+            .toBeGreaterThan(plain[5].buyNetWorth - plain[5].rentNetWorth);
+    });
+
+    it('bills year one on the seller\'s assessment plus a supplemental bill', () => {
+        const { months } = simulateMonthly({ ...inputs, priorAssessedValue: 500000 }, 2);
+        const data = calculateNetWorth({ ...inputs, priorAssessedValue: 500000 }, 2);
+        const plain = calculateNetWorth(inputs, 2);
+
+        expect(months[1].propertyTax).toBeCloseTo(500000 * 0.0115 / 12, 6);
+        expect(months[SUPPLEMENTAL_BILL_MONTH].supplementalTax).toBeCloseTo(1000000 * 0.0115, 6);
+        expect(data[1].annualSupplementalTax).toBeCloseTo(1000000 * 0.0115, 6);
+        // Only the timing changes: the year's bill is the same
+        expect(data[1].annualPropertyTax).toBeCloseTo(plain[1].annualPropertyTax, 6);
+        expect(data[2].annualSupplementalTax).toBe(0);
+    });
+
+    it('ignores the base year inputs when Prop 13 is turned off', () => {
+        const off = { ...inputs, applyProp13: false };
+        const data = calculateNetWorth({ ...off, priorAssessedValue: 500000, transferredBaseValue: 600000 }, 3);
+        expect(data).toEqual(calculateNetWorth(off, 3));
+        expect(data[3].assessedValue).toBeCloseTo(1500000 * Math.pow(1.04, 2), 0);
+    });
+});
+
+describe('loan products', () => {
+    const inputs: CalculatorInputs = { ...baseInputs, purchasePrice: 1000000, mortgageRate: 0.06 };
+
+    it('defaults to a 30-year fixed loan', () => {
+        const data = calculateNetWorth(inputs, 10);
+        const explicit = calculateNetWorth({ ...inputs, loan: { type: 'fixed', termYears: 30 } }, 10);
+        expect(explicit).toEqual(data);
+        expect(data[10].mortgageBalance).toBeCloseTo(calculateMortgageBalance(800000, 0.06, 120), 4);
+    });
+
+    it('pays off a 15-year loan and stops charging the mortgage', () => {
+        const data = calculateNetWorth({ ...inputs, loan: { type: 'fixed', termYears: 15 } }, 20);
+        const payment = calculateMonthlyMortgage(800000, 0.06, 15);
+
+        expect(data[1].annualPrincipal + data[1].annualMortgageInterest).toBeCloseTo(payment * 12, 4);
+        expect(data[15].mortgageBalance).toBe(0);
+        expect(data[16].annualPrincipal).toBe(0);
+        expect(data[16].annualMortgageInterest).toBe(0);
+    });
+
+    it('pays no principal during an interest-only period', () => {
+        const loan = { type: 'fixed' as const, termYears: 30, interestOnlyYears: 5 };
+        const data = calculateNetWorth({ ...inputs, loan }, 6);
+
+        expect(data[5].mortgageBalance).toBeCloseTo(800000, 6);
+        expect(data[1].annualMortgageInterest).toBeCloseTo(48000, 6);
+        expect(data[6].annualPrincipal).toBeGreaterThan(0);
+    });
+
+    it('counts only the borrower-paid interest under a buydown', () => {
+        const base = calculateNetWorth(inputs, 3);
+        const data = calculateNetWorth({ ...inputs, loan: { type: 'fixed', termYears: 30, buydown: '2-1' } }, 3);
+
+        expect(data[1].annualPrincipal).toBeCloseTo(base[1].annualPrincipal, 6);
+        expect(data[1].annualMortgageInterest).toBeLessThan(base[1].annualMortgageInterest);
+        expect(data[3].annualMortgageInterest).toBeCloseTo(base[3].annualMortgageInterest, 6);
+    });
+});
+
+describe('refinancing', () => {
+    const inputs: CalculatorInputs = { ...baseInputs, purchasePrice: 1000000, mortgageRate: 0.07 };
+    const refinance = { year: 3, rate: 0.05, termYears: 30, closingCost: 6000 };
+
+    it('charges the closing cost in the refinance year and lowers later payments', () => {
+        const base = calculateNetWorth(inputs, 10);
+        const data = calculateNetWorth({ ...inputs, refinances: [refinance] }, 10);
+
+        expect(data[2]).toEqual(base[2]);
+        expect(data[3].annualRefinanceCost).toBe(6000);
+        expect(data[3].refinance?.newPayment).toBeLessThan(data[3].refinance!.oldPayment);
+        expect(data[4].annualRefinanceCost).toBe(0);
+        expect(data[4].refinance).toBeNull();
+        expect(data[4].annualPrincipal + data[4].annualMortgageInterest)
+            .toBeCloseTo(data[3].refinance!.newPayment * 12, 4);
+        expect(data[10].buyNetWorth).toBeGreaterThan(base[10].buyNetWorth);
+    });
+
+    it('keeps cash-out in the owner\'s investments without changing net worth at once', () => {
+        const withoutCash = calculateNetWorth({ ...inputs, refinances: [refinance] }, 3);
+        const data = calculateNetWorth({ ...inputs, refinances: [{ ...refinance, cashOut: 50000 }] }, 3);
+
+        expect(data[3].mortgageBalance - withoutCash[3].mortgageBalance).toBeGreaterThan(49000);
+        expect(data[3].buyingInvestments).toBeGreaterThan(withoutCash[3].buyingInvestments + 50000);
+    });
+});
+
+describe('transaction costs and tax on sale', () => {
+    const inputs: CalculatorInputs = {
+        ...baseInputs,
+        homeAppreciationRate: 0.06,
+        filingStatus: 'married',
+        stateTaxRate: 0.093,
+    };
+    const itemized: TransactionCosts = { ...DEFAULT_TRANSACTION_COSTS, city: 'san-francisco' };
+
+    it('uses itemized costs in place of the flat rates', () => {
+        const data = calculateNetWorth({ ...inputs, transactionCosts: itemized }, 5);
+        const purchase = calculatePurchaseCosts(1500000, 1200000, itemized);
+
+        expect(data[0].annualOwnershipCost).toBeCloseTo(purchase.total, 6);
+        expect(data[0].rentNetWorth).toBeCloseTo(300000 + purchase.total, 6);
+        expect(data[5].sellingCosts).toBeCloseTo(calculateSaleCosts(data[5].homeValue, itemized).total, 6);
+        expect(data[5].buyNetWorth).toBeCloseTo(
+            data[5].homeEquity - data[5].sellingCosts - purchase.total + data[5].buyingInvestments,
+            6
+        );
+    });
+
+    it('does not tax the sale unless a capital gains rate is given', () => {
+        const data = calculateNetWorth(inputs, 15);
+        expect(data.every(d => d.capitalGainsTax === 0)).toBe(true);
+    });
+
+    it('taxes the gain above the exclusion and lowers net worth by it', () => {
+        const data = calculateNetWorth({ ...inputs, federalCapitalGainsRate: 0.15 }, 15);
+        const final = data[15];
+        const gain = final.homeValue - final.sellingCosts - 1500000 * 1.025;
+
+        expect(final.capitalGainsTax).toBeCloseTo((gain - 500000) * (0.15 + 0.093), 4);
+        // The owner's invested tax savings are taxed on sale too, since the rate also applies to investments
+        expect(final.buyNetWorth).toBeCloseTo(
+            final.homeEquity - final.sellingCosts - 1500000 * 0.025 +
+                final.buyingInvestments - final.buyingInvestmentTax - final.capitalGainsTax,
+            4
+        );
+        expect(data[3].capitalGainsTax).toBe(0); // Gain still under the exclusion
+    });
+});
+
+describe('investment taxes', () => {
+    const inputs: CalculatorInputs = {
+        ...baseInputs,
+        filingStatus: 'married',
+        stateTaxRate: 0.093,
+        federalCapitalGainsRate: 0.15,
+    };
+
+    it('subtracts tax on the renter\'s gains from after-tax net worth', () => {
+        const data = calculateNetWorth(inputs, 10);
+        const final = data[10];
+        expect(final.rentingInvestmentTax).toBeGreaterThan(0);
+        expect(final.rentNetWorth).toBeCloseTo(final.rentingInvestments - final.rentingInvestmentTax, 6);
+        expect(data[0].rentNetWorth).toBe(data[0].rentingInvestments);
+    });
+
+    it('leaves out taxes on selling for both sides in pre-tax mode', () => {
+        const afterTax = calculateNetWorth(inputs, 15)[15];
+        const preTax = calculateNetWorth({ ...inputs, afterTaxNetWorth: false }, 15)[15];
+        expect(preTax.rentNetWorth).toBe(preTax.rentingInvestments);
+        expect(preTax.rentNetWorth).toBeCloseTo(afterTax.rentNetWorth + afterTax.rentingInvestmentTax, 6);
+        expect(preTax.buyNetWorth).toBeCloseTo(
+            afterTax.buyNetWorth + afterTax.capitalGainsTax + afterTax.buyingInvestmentTax,
+            6
+        );
+    });
+
+    it('taxes dividends yearly, slowing the portfolio\'s growth', () => {
+        const noDividends = calculateNetWorth(inputs, 10);
+        const data = calculateNetWorth({ ...inputs, dividendYield: 0.02 }, 10);
+        expect(data[1].annualDividendTax).toBeGreaterThan(0);
+        expect(data[10].rentingInvestments).toBeLessThan(noDividends[10].rentingInvestments);
+        // Reinvested dividends were already taxed, so less gain is left to tax on sale
+        expect(data[10].rentingInvestmentTax).toBeLessThan(noDividends[10].rentingInvestmentTax);
+    });
+
+    it('taxes nothing without a capital gains rate', () => {
+        const { federalCapitalGainsRate, ...untaxed } = inputs;
+        const data = calculateNetWorth({ ...untaxed, dividendYield: 0.02 }, 10);
+        expect(federalCapitalGainsRate).toBe(0.15);
+        expect(data.every(d => d.rentingInvestmentTax === 0 && d.annualDividendTax === 0)).toBe(true);
+    });
+});
+
+describe('real dollars', () => {
+    const inputs: CalculatorInputs = { ...baseInputs, inflationRate: 0.03 };
+
+    it('ignores the inflation rate in nominal mode', () => {
+        const { inflationRate, ...withoutInflation } = inputs;
+        expect(inflationRate).toBe(0.03);
+        expect(calculateNetWorth(inputs, 10)).toEqual(calculateNetWorth(withoutInflation, 10));
+    });
+
+    it('deflates each year by cumulative inflation', () => {
+        const nominal = calculateNetWorth(inputs, 10);
+        const real = calculateNetWorth({ ...inputs, realDollars: true }, 10);
+
+        expect(real[0]).toEqual(nominal[0]);
+        expect(real[10].buyNetWorth).toBeCloseTo(nominal[10].buyNetWorth / Math.pow(1.03, 10), 6);
+        expect(real[10].annualRent).toBeCloseTo(nominal[10].annualRent / Math.pow(1.03, 10), 6);
+        expect(real[10].year).toBe(10);
+    });
+
+    it('shrinks Prop 13 tax in real terms when inflation outpaces the 2% cap', () => {
+        const real = toRealDollars(calculateNetWorth(inputs, 10), 0.03);
+        expect(real[10].annualPropertyTax).toBeLessThan(real[1].annualPropertyTax);
+        expect(real[10].cumulativeProp13Savings).toBeCloseTo(
+            real.reduce((sum, d) => sum + d.annualProp13Savings, 0),
+            6
+        );
+    });
+
+    it('keeps the crossover in the same year, interpolated on deflated values', () => {
+        const pricier = { ...inputs, monthlyRent: 8000 };
+        const nominal = findCrossoverYear(calculateNetWorth(pricier, 30));
+        const real = findCrossoverYear(calculateNetWorth({ ...pricier, realDollars: true }, 30));
+        expect(nominal).not.toBeNull();
+        expect(Math.floor(real!)).toBe(Math.floor(nominal!));
+    });
+});
+
+describe('monthly engine', () => {
+    const inputs: CalculatorInputs = {
+        ...baseInputs,
+        purchasePrice: 1000000,
+        downPaymentPercent: 10,
+        hoaMonthly: 300,
+        pmiRate: 0.005,
+    };
+
+    it('steps every month and rolls up one row per year', () => {
+        const simulation = simulateMonthly(inputs, 10);
+        expect(simulation.months).toHaveLength(121);
+        expect(simulation.months[30].year).toBe(2.5);
+
+        const data = rollUpYearly(simulation);
+        expect(data.map(d => d.year)).toEqual([0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10]);
+        expect(data[10].buyNetWorth).toBe(simulation.months[120].buyNetWorth);
+    });
+
+    it('sums each year\'s monthly flows into its row', () => {
+        const simulation = simulateMonthly(inputs, 5);
+        const data = rollUpYearly(simulation);
+        const year3 = simulation.months.slice(25, 37);
+        const sum = (pick: (m: typeof year3[number]) => number) => year3.reduce((total, m) => total + pick(m), 0);
+
+        expect(data[3].annualRent).toBeCloseTo(sum(m => m.rent), 6);
+        expect(data[3].annualMaintenance).toBeCloseTo(sum(m => m.maintenance), 6);
+        expect(data[3].annualPmi).toBeCloseTo(sum(m => m.pmi), 6);
+        expect(data[3].annualMortgageInterest).toBeCloseTo(sum(m => m.mortgageInterest), 6);
+    });
+
+    it('raises rent only on lease renewal', () => {
+        const { months } = simulateMonthly(inputs, 2);
+        expect(months[12].rent).toBe(4000);
+        expect(months[13].rent).toBeCloseTo(4120, 6);
+    });
+
+    it('ends a fractional horizon with a partial row', () => {
+        const data = calculateNetWorth(inputs, 7.5);
+        const { months } = simulateMonthly(inputs, 7.5);
+
+        expect(data.map(d => d.year)).toEqual([0, 1, 2, 3, 4, 5, 6, 7, 7.5]);
+        expect(data[8].annualRent).toBeCloseTo(months.slice(85).reduce((total, m) => total + m.rent, 0), 6);
+        expect(data[8].buyNetWorth).toBe(months[90].buyNetWorth);
+        expect(data[7]).toEqual(calculateNetWorth(inputs, 7)[7]);
+    });
+
+    it('deflates the monthly series like the yearly rows in real mode', () => {
+        const real = { ...inputs, inflationRate: 0.03, realDollars: true };
+        const series = calculateMonthlyNetWorth(real, 10);
+        expect(series[120].buyNetWorth).toBeCloseTo(calculateNetWorth(real, 10)[10].buyNetWorth, 6);
+    });
+
+    it('serves the yearly rows and both monthly series from one simulation', () => {
+        const real = { ...inputs, inflationRate: 0.03, realDollars: true };
+        const simulation = simulateMonthly(real, 10);
+
+        expect(yearlyNetWorth(real, simulation)).toEqual(calculateNetWorth(real, 10));
+        expect(monthlyNetWorth(simulation, 0.03)).toEqual(calculateMonthlyNetWorth(real, 10));
+        expect(monthlyNetWorth(simulation, 0)).toEqual(calculateMonthlyNetWorth(inputs, 10));
+    });
 });
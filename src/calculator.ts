@@ -1,5 +1,34 @@
 // Core calculation logic for rent vs. buy comparison
 
+import {
+    AmortizationRow,
+    buildLoanSchedule,
+    DEFAULT_LOAN,
+    LoanSchedule,
+    LoanStructure,
+    RefinanceEvent,
+    RefinanceSummary,
+} from './amortization.js';
+import {
+    addToPortfolio,
+    calculateLiquidationTax,
+    growPortfolio,
+    openPortfolio,
+} from './portfolio.js';
+import { LocationId } from './locations.js';
+import { calculateSaleTax, calculateTaxSavings, FilingStatus, TaxProfile } from './tax.js';
+import {
+    calculatePurchaseCosts,
+    calculateSaleCosts,
+    TransactionCosts,
+} from './transactions.js';
+import { VALIDATION_RULES } from './validation.js';
+
+// Who invests the monthly cost difference between owning and renting
+// 'both': whichever side pays less invests its surplus
+// 'renter': the renter's account absorbs the difference either way (common in other calculators)
+export type SurplusInvestor = 'both' | 'renter';
+
 export interface CalculatorInputs {
     // Basic inputs (v1)
     purchasePrice: number;
@@ -12,11 +41,48 @@ export interface CalculatorInputs {
     // Advanced inputs with defaults (v2+)
     investmentReturnRate: number; // Default 7%
     propertyTaxRate: number; // Default 1.15%
+    parcelTaxAnnual?: number; // Flat parcel taxes and special assessments per year, default $0
     hoaMonthly: number; // Default $0
     maintenanceRate: number; // Default 1% of home value
     closingCostRate: number; // Default 2.5%
     sellingCostRate: number; // Default 6%
     insuranceAnnual: number; // Default 0.35% of home value
+
+    // Tax inputs (v4) - omitted rates mean income taxes are not modeled
+    filingStatus?: FilingStatus;
+    federalTaxRate?: number; // Marginal rate as decimal
+    stateTaxRate?: number; // CA marginal rate as decimal
+    otherItemizedDeductions?: number; // Annual charity etc., excluding SALT and mortgage interest
+    otherSaltTaxes?: number; // Annual state income tax that shares the SALT cap
+    federalCapitalGainsRate?: number; // Long-term rate on sale gains; omitted means the sale is untaxed
+
+    // PMI - only charged when down payment is under 20%
+    pmiRate?: number; // Annual premium as decimal of original loan amount
+    pmiCancelAtAppraisal?: boolean; // Drop PMI at 80% of current appraised value
+
+    investDifference?: SurplusInvestor; // Default 'both'
+    applyProp13?: boolean; // Default true; false taxes market value like other states
+
+    // Prop 13 base year value; omitted fields mean it is the purchase price, billed evenly
+    priorAssessedValue?: number; // Seller's assessed value: year one is billed on it plus a supplemental bill
+    transferredBaseValue?: number; // Prop 19: factored base value carried over from a home sold at 55+
+    soldHomePrice?: number; // Prop 19: that home's sale price; a costlier new home adds the difference
+
+    // Investment taxes use the capital gains rate plus the CA rate; none without a capital gains rate
+    dividendYield?: number; // Part of the investment return paid as dividends, taxed yearly
+    afterTaxNetWorth?: boolean; // Default true: net worth after taxes on selling the home and investments
+
+    // Results are nominal unless realDollars deflates them to today's dollars
+    inflationRate?: number; // General (CPI) inflation as decimal
+    realDollars?: boolean; // Default false
+
+    loan?: LoanStructure; // Default 30-year fixed at mortgageRate
+    refinances?: RefinanceEvent[]; // Each restarts amortization from the balance at that point
+
+    // Itemized buy and sell costs; when set they replace closingCostRate and sellingCostRate
+    transactionCosts?: TransactionCosts;
+
+    location?: LocationId; // Preset the location fields were filled from; not used by the engine
 }
 
 export interface YearlyData {
@@ -27,19 +93,99 @@ export interface YearlyData {
     homeValue: number;
     mortgageBalance: number;
     homeEquity: number;
-    rentingInvestments: number;
+    rentingInvestments: number; // Market value before taxes on selling
+    buyingInvestments: number; // Owner's invested tax savings, plus the surplus when owning costs less than renting
+    rentingInvestmentTax: number; // Capital gains tax if the renter sold their investments this year
+    buyingInvestmentTax: number; // Same for the owner's investments
+    annualDividendTax: number; // Tax on both accounts' dividends this year
     annualRent: number;
     annualOwnershipCost: number;
+    // Ownership cost breakdown (sums to annualOwnershipCost after year 0)
+    annualPrincipal: number;
+    annualMortgageInterest: number;
+    annualPropertyTax: number; // Including parcel taxes and any supplemental bill
+    annualInsurance: number;
+    annualHoa: number;
+    annualMaintenance: number;
+    annualPmi: number;
+    annualRefinanceCost: number; // Closing costs of refinances this year
+    sellingCosts: number; // Cost of selling at this year's value
+    capitalGainsTax: number; // Federal + CA tax on the gain if sold this year
+    annualTaxSavings: number; // Federal + CA income tax saved by owning
+    annualProp13Savings: number; // Market-value tax minus Prop 13 tax
+    cumulativeProp13Savings: number;
+    assessedValue: number; // Taxable value for this year's bill; market value without Prop 13
+    annualSupplementalTax: number; // Supplemental bill after the purchase, part of annualPropertyTax
+    pmiEndMonth: number | null; // Last month PMI is paid, null if never charged
+    refinance: RefinanceSummary | null; // Refinance that took effect this year
+}
+
+// One month of the simulation: balances at the month's end and the month's cash flows
+export interface MonthlyData {
+    month: number; // Months since purchase; month 0 is the purchase itself
+    year: number; // month / 12
+    buyNetWorth: number;
+    rentNetWorth: number;
+    homeValue: number;
+    mortgageBalance: number;
+    homeEquity: number;
+    rentingInvestments: number;
+    buyingInvestments: number;
+    rentingInvestmentTax: number;
+    buyingInvestmentTax: number;
+    sellingCosts: number;
+    capitalGainsTax: number;
+    // Cash flows during the month
+    closingCosts: number; // Purchase costs, in month 0 only
+    rent: number;
+    principal: number;
+    mortgageInterest: number; // Borrower-paid interest
+    propertyTax: number; // Including any supplemental bill
+    supplementalTax: number;
+    insurance: number;
+    hoa: number;
+    maintenance: number;
+    pmi: number;
+    refinanceCost: number;
+    taxSavings: number;
+    prop13Savings: number;
+    assessedValue: number; // Taxable value for the year's bill
+    dividendTax: number;
+    refinance: RefinanceSummary | null; // Refinance whose first payment is this month
 }
 
+export interface MonthlySimulation {
+    months: MonthlyData[];
+    pmiEndMonth: number | null;
+}
+
+// The part of a result that crossovers are found from
+export type NetWorthPoint = Pick<YearlyData, 'year' | 'buyNetWorth' | 'rentNetWorth'>;
+
 export const DEFAULT_INPUTS: Partial<CalculatorInputs> = {
     investmentReturnRate: 0.07,
     propertyTaxRate: 0.0115,
+    parcelTaxAnnual: 0,
     hoaMonthly: 0,
     maintenanceRate: 0.01,
     closingCostRate: 0.025,
     sellingCostRate: 0.06,
     insuranceAnnual: 0, // Will be calculated as % of home value if 0
+    filingStatus: 'married',
+    federalTaxRate: 0.24,
+    stateTaxRate: 0.093,
+    otherItemizedDeductions: 0,
+    otherSaltTaxes: 0,
+    federalCapitalGainsRate: 0.15,
+    pmiRate: 0.005,
+    pmiCancelAtAppraisal: false,
+    investDifference: 'both',
+    applyProp13: true,
+    dividendYield: 0.015,
+    afterTaxNetWorth: true,
+    inflationRate: 0.025,
+    realDollars: false,
+    loan: DEFAULT_LOAN,
 };
 
 // Calculate monthly mortgage payment (principal + interest)
@@ -82,123 +228,539 @@ export function calculateMortgageBalance(
     return Math.max(0, balance);
 }
 
-// Calculate property tax with Prop 13 (2% annual cap on assessed value increase)
+// Prop 13 caps the yearly increase of the assessed value at 2%
+export const PROP13_MAX_FACTOR = 0.02;
+
+// The supplemental bill arrives a few months after closing; the engine charges it in this month
+export const SUPPLEMENTAL_BILL_MONTH = 4;
+
+// The yearly inflation factor is California CPI capped at 2%, so it is lower (even negative)
+// in low-inflation years. Without a CPI estimate the cap applies.
+export function prop13InflationFactor(cpi?: number): number {
+    return cpi === undefined ? PROP13_MAX_FACTOR : Math.min(cpi, PROP13_MAX_FACTOR);
+}
+
+// Calculate property tax with Prop 13: the base year value grows by the inflation factor each year
 export function calculateProp13Tax(
-    purchasePrice: number,
+    baseValue: number,
     year: number,
-    taxRate: number
+    taxRate: number,
+    inflationFactor: number = PROP13_MAX_FACTOR
 ): number {
-    // Assessed value can only increase 2% per year under Prop 13
-    const assessedValue = purchasePrice * Math.pow(1.02, year);
+    const assessedValue = baseValue * Math.pow(1 + inflationFactor, year);
     return assessedValue * taxRate;
 }
 
-// Main calculation function
-export function calculateNetWorth(
+// Assessed value after `year` years. Under Prop 8 it drops to market value when that falls
+// below the factored base value; the factored base keeps growing, and the assessment returns
+// to it as the market recovers, by more than 2% a year if need be.
+export function calculateAssessedValue(
+    baseValue: number,
+    year: number,
+    marketValue: number,
+    inflationFactor: number = PROP13_MAX_FACTOR
+): number {
+    return Math.min(baseValue * Math.pow(1 + inflationFactor, year), marketValue);
+}
+
+// Prop 19: a homeowner 55 or older keeps the factored base value of the home they sold. A
+// replacement that costs more than the old home sold for adds the difference.
+export function prop19BaseValue(
+    purchasePrice: number,
+    transferredBaseValue: number,
+    soldHomePrice: number = purchasePrice
+): number {
+    return Math.min(purchasePrice, transferredBaseValue + Math.max(0, purchasePrice - soldHomePrice));
+}
+
+// Supplemental assessment: the bill current at closing is based on the seller's assessed
+// value, so the county bills (or refunds) the change to the new base year value separately
+export function calculateSupplementalTax(
+    baseValue: number,
+    priorAssessedValue: number,
+    taxRate: number
+): number {
+    return (baseValue - priorAssessedValue) * taxRate;
+}
+
+// Find the last month PMI is paid: it cancels automatically once the balance reaches
+// 78% of the original value, or on request at 80% of the current appraised value.
+// Refinances are part of the schedule, so cash-out that raises the balance delays it.
+// Returns null when no PMI is required (at least 20% down).
+export function calculatePmiEndMonth(
+    purchasePrice: number,
+    loanAmount: number,
+    annualRate: number,
+    appreciationRate: number,
+    cancelAtAppraisal: boolean = false,
+    loan: LoanStructure = DEFAULT_LOAN,
+    refinances: RefinanceEvent[] = []
+): number | null {
+    const { rows } = buildLoanSchedule(loanAmount, annualRate, loan, refinances);
+    return findPmiEndMonth(purchasePrice, loanAmount, rows, appreciationRate, cancelAtAppraisal);
+}
+
+function findPmiEndMonth(
+    purchasePrice: number,
+    loanAmount: number,
+    schedule: AmortizationRow[],
+    appreciationRate: number,
+    cancelAtAppraisal: boolean
+): number | null {
+    if (loanAmount <= purchasePrice * 0.8) {
+        return null;
+    }
+
+    for (const { month, balance } of schedule) {
+        if (balance <= purchasePrice * 0.78) {
+            return month;
+        }
+        const appraisedValue = purchasePrice * Math.pow(1 + appreciationRate, month / 12);
+        if (cancelAtAppraisal && balance <= appraisedValue * 0.8) {
+            return month;
+        }
+    }
+    return schedule.length;
+}
+
+// Per-year rate overrides, indexed by year - 1 (used by the Monte Carlo simulation)
+export interface RatePath {
+    homeAppreciation: number[];
+    rentGrowth: number[];
+    investmentReturn: number[];
+}
+
+// Month-by-month loan schedule for the inputs, including refinances
+export function calculateLoanSchedule(inputs: CalculatorInputs): LoanSchedule {
+    const loanAmount = inputs.purchasePrice - inputs.purchasePrice * (inputs.downPaymentPercent / 100);
+    return buildLoanSchedule(
+        loanAmount,
+        inputs.mortgageRate,
+        inputs.loan ?? DEFAULT_LOAN,
+        inputs.refinances
+    );
+}
+
+// Month-by-month simulation of both sides. Rates, rent and the property tax bill change once
+// a year (rent on the lease anniversary, tax on the annual assessment); everything else moves
+// monthly. A fractional horizon such as 7.5 years runs to the nearest whole month.
+export function simulateMonthly(
     inputs: CalculatorInputs,
-    years: number
-): YearlyData[] {
-    const results: YearlyData[] = [];
+    years: number,
+    ratePath?: RatePath
+): MonthlySimulation {
+    const months: MonthlyData[] = [];
+    const totalMonths = Math.round(years * 12);
 
     const downPayment = inputs.purchasePrice * (inputs.downPaymentPercent / 100);
     const loanAmount = inputs.purchasePrice - downPayment;
-    const closingCosts = inputs.purchasePrice * inputs.closingCostRate;
-    const monthlyMortgage = calculateMonthlyMortgage(loanAmount, inputs.mortgageRate);
+
+    // Buying and selling costs: itemized when given, otherwise flat rates
+    const itemized = inputs.transactionCosts;
+    const purchaseCosts = itemized
+        ? calculatePurchaseCosts(inputs.purchasePrice, loanAmount, itemized)
+        : null;
+    const closingCosts = purchaseCosts
+        ? purchaseCosts.total
+        : inputs.purchasePrice * inputs.closingCostRate;
+    const getSellingCosts = (homeValue: number) =>
+        itemized ? calculateSaleCosts(homeValue, itemized).total : homeValue * inputs.sellingCostRate;
+
+    // Tax on the gain if sold; loan fees are not part of the cost basis
+    const costBasis = inputs.purchasePrice +
+        (purchaseCosts ? purchaseCosts.total - purchaseCosts.loanFees : closingCosts);
+    const getCapitalGainsTax = (homeValue: number, sellingCosts: number, yearsOwned: number) =>
+        inputs.federalCapitalGainsRate === undefined
+            ? 0
+            : calculateSaleTax(
+                { salePrice: homeValue, sellingCosts, costBasis, yearsOwned },
+                inputs.filingStatus ?? 'single',
+                inputs.federalCapitalGainsRate,
+                inputs.stateTaxRate ?? 0
+            ).total;
+
+    // Investment accounts: dividends taxed yearly, gains when sold
+    const investmentTaxRate = inputs.federalCapitalGainsRate === undefined
+        ? 0
+        : inputs.federalCapitalGainsRate + (inputs.stateTaxRate ?? 0);
+    const dividendYield = inputs.dividendYield ?? 0;
+    const afterTax = inputs.afterTaxNetWorth ?? true;
+    const { rows: schedule, refinances } = calculateLoanSchedule(inputs);
+    // Balance after a number of payments (0 once the loan is paid off)
+    const balanceAfter = (month: number) =>
+        month === 0 ? loanAmount : schedule[month - 1]?.balance ?? 0;
 
     // Insurance: if not specified, estimate as 0.35% of home value
     const getAnnualInsurance = (homeValue: number) =>
         inputs.insuranceAnnual > 0 ? inputs.insuranceAnnual : homeValue * 0.0035;
 
-    // Year 0: Initial state
-    const initialHomeValue = inputs.purchasePrice;
+    // PMI is a flat monthly premium on the original loan until it cancels
+    const monthlyPmi = (loanAmount * (inputs.pmiRate ?? 0)) / 12;
+    const pmiEndMonth = monthlyPmi > 0
+        ? findPmiEndMonth(
+            inputs.purchasePrice,
+            loanAmount,
+            schedule,
+            inputs.homeAppreciationRate,
+            inputs.pmiCancelAtAppraisal ?? false
+        )
+        : null;
+
+    const taxProfile: TaxProfile = {
+        filingStatus: inputs.filingStatus ?? 'single',
+        federalTaxRate: inputs.federalTaxRate ?? 0,
+        stateTaxRate: inputs.stateTaxRate ?? 0,
+        otherItemizedDeductions: inputs.otherItemizedDeductions ?? 0,
+        otherSaltTaxes: inputs.otherSaltTaxes ?? 0,
+    };
 
     // Renter starts with down payment + closing costs invested
-    let rentingInvestments = downPayment + closingCosts;
+    let renting = openPortfolio(downPayment + closingCosts);
+    // Owner invests whatever they save each month versus renting
+    let buying = openPortfolio(0);
+    const investDifference = inputs.investDifference ?? 'both';
+    const applyProp13 = inputs.applyProp13 ?? true;
+    const baseValue = inputs.transferredBaseValue === undefined
+        ? inputs.purchasePrice
+        : prop19BaseValue(inputs.purchasePrice, inputs.transferredBaseValue, inputs.soldHomePrice);
+    const inflationFactor = prop13InflationFactor(inputs.inflationRate);
     let currentMonthlyRent = inputs.monthlyRent;
 
-    // Add year 0: "If I sold today, what would I net?"
-    const initialSellingCosts = initialHomeValue * inputs.sellingCostRate;
-    results.push({
+    // Month 0: "If I sold today, what would I net?"
+    const initialSellingCosts = getSellingCosts(inputs.purchasePrice);
+    months.push({
+        month: 0,
         year: 0,
         buyNetWorth: downPayment - initialSellingCosts - closingCosts,
-        rentNetWorth: rentingInvestments,
-        homeValue: initialHomeValue,
+        rentNetWorth: renting.value,
+        homeValue: inputs.purchasePrice,
         mortgageBalance: loanAmount,
         homeEquity: downPayment,
-        rentingInvestments: rentingInvestments,
-        annualRent: 0,
-        annualOwnershipCost: closingCosts,
+        rentingInvestments: renting.value,
+        buyingInvestments: buying.value,
+        rentingInvestmentTax: 0,
+        buyingInvestmentTax: 0,
+        sellingCosts: initialSellingCosts,
+        capitalGainsTax: 0,
+        closingCosts,
+        rent: 0,
+        principal: 0,
+        mortgageInterest: 0,
+        propertyTax: 0,
+        supplementalTax: 0,
+        insurance: 0,
+        hoa: 0,
+        maintenance: 0,
+        pmi: 0,
+        refinanceCost: 0,
+        taxSavings: 0,
+        prop13Savings: 0,
+        assessedValue: applyProp13 ? baseValue : inputs.purchasePrice,
+        dividendTax: 0,
+        refinance: null,
     });
 
-    for (let year = 1; year <= years; year++) {
-        // Home value appreciates
-        const homeValue = inputs.purchasePrice * Math.pow(1 + inputs.homeAppreciationRate, year);
-
-        // Mortgage balance after payments
-        const mortgageBalance = calculateMortgageBalance(
-            loanAmount,
-            inputs.mortgageRate,
-            year * 12
-        );
-
-        // Annual ownership costs
-        const annualMortgage = monthlyMortgage * 12;
-        const annualPropertyTax = calculateProp13Tax(
-            inputs.purchasePrice,
-            year - 1, // Tax based on prior year assessment
-            inputs.propertyTaxRate
-        );
-        const annualHoa = inputs.hoaMonthly * 12;
-        const annualMaintenance = homeValue * inputs.maintenanceRate;
-        const annualInsurance = getAnnualInsurance(homeValue);
-
-        const annualOwnershipCost =
-            annualMortgage + annualPropertyTax + annualHoa + annualMaintenance + annualInsurance;
-
-        // Home equity (before selling costs)
-        const homeEquity = homeValue - mortgageBalance;
+    // This year's rates and yearly bills, reset at the start of each year
+    let yearStartValue = inputs.purchasePrice;
+    let appreciationRate = inputs.homeAppreciationRate;
+    let monthlyAppreciation = 1;
+    let appreciationFactor = 1;
+    let rentGrowthRate = inputs.rentGrowthRate;
+    let investmentReturnRate = inputs.investmentReturnRate;
+    let assessedValue = 0;
+    let monthlyPropertyTax = 0;
+    let supplementalTax = 0;
+    let monthlyProp13Savings = 0;
+    let monthlyTaxSavings = 0;
+
+    for (let month = 1; month <= totalMonths; month++) {
+        const year = Math.ceil(month / 12);
+        const monthOfYear = month - (year - 1) * 12;
+
+        if (monthOfYear === 1) {
+            // Constant rates unless a simulated path is supplied
+            appreciationRate = ratePath?.homeAppreciation[year - 1] ?? inputs.homeAppreciationRate;
+            monthlyAppreciation = Math.pow(1 + appreciationRate, 1 / 12);
+            appreciationFactor = 1;
+            rentGrowthRate = ratePath?.rentGrowth[year - 1] ?? inputs.rentGrowthRate;
+            investmentReturnRate = ratePath?.investmentReturn[year - 1] ?? inputs.investmentReturnRate;
+
+            // The year's tax bill uses the assessment at its start, with Prop 8 lowering it to
+            // market value in a down market. The counterfactual without Prop 13 taxes market value.
+            assessedValue = applyProp13
+                ? calculateAssessedValue(baseValue, year - 1, yearStartValue, inflationFactor)
+                : yearStartValue;
+            const marketValueTax = yearStartValue * inputs.propertyTaxRate;
+            const annualPropertyTax = assessedValue * inputs.propertyTaxRate;
+            // Year one is billed on the seller's assessment, plus a supplemental bill for the change
+            supplementalTax = year === 1 && applyProp13 && inputs.priorAssessedValue !== undefined
+                ? calculateSupplementalTax(assessedValue, inputs.priorAssessedValue, inputs.propertyTaxRate)
+                : 0;
+            // Parcel taxes are flat charges, outside Prop 13 and not deductible
+            monthlyPropertyTax = (annualPropertyTax - supplementalTax + (inputs.parcelTaxAnnual ?? 0)) / 12;
+            monthlyProp13Savings = (marketValueTax - annualPropertyTax) / 12;
+
+            // Income tax saved through mortgage interest and property tax deductions, spread
+            // over the year (buydown subsidies cover part of the interest, so only the
+            // borrower's share counts)
+            const payments = schedule.slice((year - 1) * 12, year * 12);
+            const annualMortgageInterest = payments.reduce((sum, row) => sum + row.payment - row.principal, 0);
+            monthlyTaxSavings = calculateTaxSavings(taxProfile, {
+                mortgageInterest: annualMortgageInterest,
+                averageMortgageBalance: (balanceAfter((year - 1) * 12) + balanceAfter(year * 12)) / 2,
+                propertyTax: annualPropertyTax,
+            }).total / 12;
+        }
 
-        // Net worth if selling: equity minus selling costs
-        const sellingCosts = homeValue * inputs.sellingCostRate;
-        const buyNetWorth = homeEquity - sellingCosts - closingCosts;
+        // Appreciation compounds within the year, landing on the yearly rate at its end
+        appreciationFactor = monthOfYear === 12 ? 1 + appreciationRate : appreciationFactor * monthlyAppreciation;
+        const homeValue = yearStartValue * appreciationFactor;
+
+        // This month's payment from the amortization schedule
+        const row = schedule[month - 1];
+        const payment = row?.payment ?? 0;
+        const principal = row?.principal ?? 0;
+        const mortgageBalance = balanceAfter(month);
+
+        const hoa = inputs.hoaMonthly;
+        const maintenance = homeValue * inputs.maintenanceRate / 12;
+        const insurance = getAnnualInsurance(homeValue) / 12;
+        const pmi = pmiEndMonth !== null && month <= pmiEndMonth ? monthlyPmi : 0;
+
+        // Refinance closing costs are paid in the month of the new loan; cash-out goes to
+        // the owner's account
+        let refinanceCost = 0;
+        let refinance: RefinanceSummary | null = null;
+        for (const summary of refinances) {
+            if (summary.month !== month) continue;
+            refinanceCost += summary.event.closingCost;
+            buying = addToPortfolio(buying, summary.event.cashOut ?? 0);
+            refinance = summary;
+        }
 
-        // Renter calculations
-        const annualRent = currentMonthlyRent * 12;
+        const propertyTax = monthlyPropertyTax + (month === SUPPLEMENTAL_BILL_MONTH ? supplementalTax : 0);
+        const ownershipCost = payment + propertyTax + hoa + maintenance + insurance + pmi + refinanceCost;
 
-        // Monthly cash flow difference: what renter saves (or loses) vs owner
+        // Cash flow difference: what the renter saves (or loses) vs the owner
         // Positive = renter saves money, negative = owner saves money
-        const monthlyOwnershipCost = annualOwnershipCost / 12;
-        const monthlySavings = monthlyOwnershipCost - currentMonthlyRent;
-
-        // Renter's investments grow and add monthly savings
-        // Compound monthly for accuracy
-        for (let month = 0; month < 12; month++) {
+        const monthlySavings = ownershipCost - currentMonthlyRent;
+        // Income tax saved by owning comes back to the owner, who invests it
+        buying = addToPortfolio(buying, monthlyTaxSavings);
+        if (investDifference === 'both' && monthlySavings < 0) {
+            // Owning costs less: the owner invests the surplus
+            buying = addToPortfolio(buying, -monthlySavings);
+        } else {
             // Add monthly savings (can be negative if renting costs more)
-            rentingInvestments += monthlySavings;
-            // Investments grow monthly
-            rentingInvestments *= 1 + inputs.investmentReturnRate / 12;
+            renting = addToPortfolio(renting, monthlySavings);
         }
 
-        results.push({
-            year,
-            buyNetWorth,
-            rentNetWorth: rentingInvestments,
+        // Investments grow monthly, less tax on their dividends
+        const rentingGrowth = growPortfolio(renting, investmentReturnRate, dividendYield, investmentTaxRate);
+        const buyingGrowth = growPortfolio(buying, investmentReturnRate, dividendYield, investmentTaxRate);
+        renting = rentingGrowth.portfolio;
+        buying = buyingGrowth.portfolio;
+        const rentingInvestmentTax = calculateLiquidationTax(renting, investmentTaxRate);
+        const buyingInvestmentTax = calculateLiquidationTax(buying, investmentTaxRate);
+
+        // Net worth if selling: equity minus selling costs and tax on the gain, plus the
+        // owner's side account. Pre-tax net worth leaves out taxes on selling for both sides.
+        const homeEquity = homeValue - mortgageBalance;
+        const sellingCosts = getSellingCosts(homeValue);
+        const capitalGainsTax = getCapitalGainsTax(homeValue, sellingCosts, month / 12);
+        const saleTaxes = afterTax ? capitalGainsTax + buyingInvestmentTax : 0;
+
+        months.push({
+            month,
+            year: month / 12,
+            buyNetWorth: homeEquity - sellingCosts - closingCosts + buying.value - saleTaxes,
+            rentNetWorth: renting.value - (afterTax ? rentingInvestmentTax : 0),
             homeValue,
             mortgageBalance,
             homeEquity,
-            rentingInvestments,
-            annualRent,
-            annualOwnershipCost,
+            rentingInvestments: renting.value,
+            buyingInvestments: buying.value,
+            rentingInvestmentTax,
+            buyingInvestmentTax,
+            sellingCosts,
+            capitalGainsTax,
+            closingCosts: 0,
+            rent: currentMonthlyRent,
+            principal,
+            mortgageInterest: payment - principal,
+            propertyTax,
+            supplementalTax: month === SUPPLEMENTAL_BILL_MONTH ? supplementalTax : 0,
+            insurance,
+            hoa,
+            maintenance,
+            pmi,
+            refinanceCost,
+            taxSavings: monthlyTaxSavings,
+            prop13Savings: monthlyProp13Savings,
+            assessedValue,
+            dividendTax: rentingGrowth.dividendTax + buyingGrowth.dividendTax,
+            refinance,
         });
 
-        // Rent increases for next year
-        currentMonthlyRent *= 1 + inputs.rentGrowthRate;
+        // Year end: the lease renews at the new rent and the next year starts from this value
+        if (monthOfYear === 12) {
+            currentMonthlyRent *= 1 + rentGrowthRate;
+            yearStartValue = homeValue;
+        }
+    }
+
+    return { months, pmiEndMonth };
+}
+
+// Roll months up into a row per year, plus a final row for a partial last year. Balances
+// come from the row's last month and cash flows are summed over its months; year 0 is the
+// purchase itself.
+export function rollUpYearly(simulation: MonthlySimulation): YearlyData[] {
+    const { months, pmiEndMonth } = simulation;
+    const lastMonth = months.length - 1;
+    const rowEnds = [0];
+    for (let month = 12; month < lastMonth; month += 12) {
+        rowEnds.push(month);
     }
+    if (lastMonth > 0) {
+        rowEnds.push(lastMonth);
+    }
+
+    let cumulativeProp13Savings = 0;
+    return rowEnds.map((end, i) => {
+        const last = months[end];
+
+        // One pass over the row's months; this runs for every Monte Carlo path and solver step
+        let closingCosts = 0;
+        let annualRent = 0;
+        let annualPrincipal = 0;
+        let annualMortgageInterest = 0;
+        let annualPropertyTax = 0;
+        let annualSupplementalTax = 0;
+        let annualInsurance = 0;
+        let annualHoa = 0;
+        let annualMaintenance = 0;
+        let annualPmi = 0;
+        let annualRefinanceCost = 0;
+        let annualTaxSavings = 0;
+        let annualProp13Savings = 0;
+        let annualDividendTax = 0;
+        let refinance: RefinanceSummary | null = null;
+        for (let month = i === 0 ? 0 : rowEnds[i - 1] + 1; month <= end; month++) {
+            const m = months[month];
+            closingCosts += m.closingCosts;
+            annualRent += m.rent;
+            annualPrincipal += m.principal;
+            annualMortgageInterest += m.mortgageInterest;
+            annualPropertyTax += m.propertyTax;
+            annualSupplementalTax += m.supplementalTax;
+            annualInsurance += m.insurance;
+            annualHoa += m.hoa;
+            annualMaintenance += m.maintenance;
+            annualPmi += m.pmi;
+            annualRefinanceCost += m.refinanceCost;
+            annualTaxSavings += m.taxSavings;
+            annualProp13Savings += m.prop13Savings;
+            annualDividendTax += m.dividendTax;
+            refinance = m.refinance ?? refinance;
+        }
+        cumulativeProp13Savings += annualProp13Savings;
+
+        return {
+            year: last.year,
+            buyNetWorth: last.buyNetWorth,
+            rentNetWorth: last.rentNetWorth,
+            homeValue: last.homeValue,
+            mortgageBalance: last.mortgageBalance,
+            homeEquity: last.homeEquity,
+            rentingInvestments: last.rentingInvestments,
+            buyingInvestments: last.buyingInvestments,
+            rentingInvestmentTax: last.rentingInvestmentTax,
+            buyingInvestmentTax: last.buyingInvestmentTax,
+            annualDividendTax,
+            annualRent,
+            annualOwnershipCost: closingCosts + annualPrincipal + annualMortgageInterest +
+                annualPropertyTax + annualInsurance + annualHoa + annualMaintenance + annualPmi +
+                annualRefinanceCost,
+            annualPrincipal,
+            annualMortgageInterest,
+            annualPropertyTax,
+            annualInsurance,
+            annualHoa,
+            annualMaintenance,
+            annualPmi,
+            annualRefinanceCost,
+            sellingCosts: last.sellingCosts,
+            capitalGainsTax: last.capitalGainsTax,
+            annualTaxSavings,
+            annualProp13Savings,
+            cumulativeProp13Savings,
+            assessedValue: last.assessedValue,
+            annualSupplementalTax,
+            pmiEndMonth,
+            refinance,
+        };
+    });
+}
+
+// Main calculation function: yearly rows rolled up from the monthly simulation
+export function calculateNetWorth(
+    inputs: CalculatorInputs,
+    years: number,
+    ratePath?: RatePath
+): YearlyData[] {
+    return yearlyNetWorth(inputs, simulateMonthly(inputs, years, ratePath));
+}
+
+// Yearly rows from a simulation already run for the inputs, in the inputs' dollars
+export function yearlyNetWorth(inputs: CalculatorInputs, simulation: MonthlySimulation): YearlyData[] {
+    const results = rollUpYearly(simulation);
+    return inputs.realDollars ? toRealDollars(results, inputs.inflationRate ?? 0) : results;
+}
 
-    return results;
+// Net worth at the end of every month, in the same dollars as calculateNetWorth;
+// analyzeCrossovers on this series dates each crossing to the month
+export function calculateMonthlyNetWorth(inputs: CalculatorInputs, years: number): NetWorthPoint[] {
+    return monthlyNetWorth(simulateMonthly(inputs, years), inputs.realDollars ? inputs.inflationRate ?? 0 : 0);
 }
 
-// Find the crossover point (year where buying becomes better than renting)
+// Each month's net worth from a simulation, in today's dollars at the inflation rate
+// (0 keeps nominal dollars)
+export function monthlyNetWorth(simulation: MonthlySimulation, inflationRate: number): NetWorthPoint[] {
+    return simulation.months.map(m => {
+        const deflator = Math.pow(1 + inflationRate, m.year);
+        return { year: m.year, buyNetWorth: m.buyNetWorth / deflator, rentNetWorth: m.rentNetWorth / deflator };
+    });
+}
+
+// Dollar amounts of YearlyData; the rest are years, months or the refinance summary
+const CURRENCY_FIELDS = [
+    'buyNetWorth', 'rentNetWorth', 'homeValue', 'mortgageBalance', 'homeEquity',
+    'rentingInvestments', 'buyingInvestments', 'rentingInvestmentTax', 'buyingInvestmentTax',
+    'annualDividendTax', 'annualRent', 'annualOwnershipCost', 'annualPrincipal',
+    'annualMortgageInterest', 'annualPropertyTax', 'annualInsurance', 'annualHoa',
+    'annualMaintenance', 'annualPmi', 'annualRefinanceCost', 'sellingCosts', 'capitalGainsTax',
+    'annualTaxSavings', 'annualProp13Savings', 'assessedValue', 'annualSupplementalTax',
+] as const;
+
+// Restate nominal results in today's dollars, deflating each year by (1 + inflation)^year.
+// Prop 13 savings are re-summed from the deflated yearly amounts. Refinance payments stay
+// nominal, since they describe the loan contract.
+export function toRealDollars(data: YearlyData[], inflationRate: number): YearlyData[] {
+    let cumulativeProp13Savings = 0;
+    return data.map(d => {
+        const deflator = Math.pow(1 + inflationRate, d.year);
+        const real = { ...d };
+        for (const field of CURRENCY_FIELDS) {
+            real[field] = d[field] / deflator;
+        }
+        cumulativeProp13Savings += real.annualProp13Savings;
+        real.cumulativeProp13Savings = cumulativeProp13Savings;
+        return real;
+    });
+}
+
+// Find the crossover point (year where buying becomes better than renting).
+// Only the first one; analyzeCrossovers finds every lead change.
 export function findCrossoverYear(data: YearlyData[]): number | null {
     for (let i = 1; i < data.length; i++) {
         const prev = data[i - 1];
@@ -206,12 +768,105 @@ export function findCrossoverYear(data: YearlyData[]): number | null {
 
         // Check if lines crossed
         if (prev.buyNetWorth <= prev.rentNetWorth && curr.buyNetWorth > curr.rentNetWorth) {
-            // Linear interpolation to estimate exact crossover
+            // Linear interpolation to estimate exact crossover; a partial last row is under a year on
             const ratio =
                 (prev.rentNetWorth - prev.buyNetWorth) /
                 (curr.buyNetWorth - curr.rentNetWorth + prev.rentNetWorth - prev.buyNetWorth);
-            return prev.year + ratio;
+            return prev.year + ratio * (curr.year - prev.year);
         }
     }
     return null;
 }
+
+// Inputs the breakeven solver can vary
+export type BreakevenField =
+    | 'homeAppreciationRate'
+    | 'rentGrowthRate'
+    | 'mortgageRate'
+    | 'monthlyRent'
+    | 'purchasePrice'
+    | 'downPaymentPercent';
+
+// The range validateInputs accepts without warning, using the hard limit on a side with no
+// realistic bound
+function realisticRange(field: BreakevenField): [number, number] {
+    const rule = VALIDATION_RULES[field];
+    return [rule.realisticMin ?? rule.min ?? -Infinity, rule.realisticMax ?? rule.max ?? Infinity];
+}
+
+// Search ranges, so the solver never reports a value the form would flag
+export const BREAKEVEN_RANGES: Record<BreakevenField, [number, number]> = {
+    homeAppreciationRate: realisticRange('homeAppreciationRate'),
+    rentGrowthRate: realisticRange('rentGrowthRate'),
+    mortgageRate: realisticRange('mortgageRate'),
+    monthlyRent: realisticRange('monthlyRent'),
+    purchasePrice: realisticRange('purchasePrice'),
+    downPaymentPercent: realisticRange('downPaymentPercent'),
+};
+
+export interface BreakevenResult {
+    field: BreakevenField;
+    years: number;
+    range: [number, number];
+    value: number | null; // Input value where buy and rent tie, null if no tie in range
+    buyWinsAbove: boolean; // Whether buying wins when the input is above the breakeven value
+    winner: 'buy' | 'rent' | null; // Who wins across the whole range when there is no tie
+}
+
+// Final buy minus rent net worth for one value of the field
+function breakevenGap(
+    inputs: CalculatorInputs,
+    field: BreakevenField,
+    value: number,
+    years: number
+): number {
+    const data = calculateNetWorth({ ...inputs, [field]: value }, years);
+    const final = data[data.length - 1];
+    return final.buyNetWorth - final.rentNetWorth;
+}
+
+// Find the value of one input at which buy and rent net worth tie at the horizon (bisection)
+export function solveBreakeven(
+    inputs: CalculatorInputs,
+    field: BreakevenField,
+    years: number,
+    range: [number, number] = BREAKEVEN_RANGES[field]
+): BreakevenResult {
+    let [lo, hi] = range;
+    let gapLo = breakevenGap(inputs, field, lo, years);
+    const gapHi = breakevenGap(inputs, field, hi, years);
+    const buyWinsAbove = gapHi > gapLo;
+
+    // Same sign at both ends: one side wins everywhere in the range
+    if (Math.sign(gapLo) === Math.sign(gapHi) && gapLo !== 0) {
+        return {
+            field,
+            years,
+            range,
+            value: null,
+            buyWinsAbove,
+            winner: gapLo > 0 ? 'buy' : 'rent',
+        };
+    }
+
+    const tolerance = (hi - lo) * 1e-10;
+    for (let i = 0; i < 200 && hi - lo > tolerance; i++) {
+        const mid = (lo + hi) / 2;
+        const gapMid = breakevenGap(inputs, field, mid, years);
+        if (Math.sign(gapMid) === Math.sign(gapLo)) {
+            lo = mid;
+            gapLo = gapMid;
+        } else {
+            hi = mid;
+        }
+    }
+
+    return {
+        field,
+        years,
+        range,
+        value: (lo + hi) / 2,
+        buyWinsAbove,
+        winner: null,
+    };
+}
@@ -0,0 +1,136 @@
+// Monthly cash flow view: stacked out-of-pocket cost of owning vs. renting
+
+import { YearlyData } from './calculator.js';
+import { currencyAxisTicks, DollarMode, formatCurrency } from './format.js';
+
+declare const Chart: any;
+
+let cashFlowChart: any;
+
+// Owner cost components, bottom to top of the "Own" stack
+const OWNERSHIP_COMPONENTS: Array<{ label: string; key: keyof YearlyData; color: string }> = [
+    { label: 'Principal', key: 'annualPrincipal', color: '#1e40af' },
+    { label: 'Interest', key: 'annualMortgageInterest', color: '#3b82f6' },
+    { label: 'Property Tax', key: 'annualPropertyTax', color: '#60a5fa' },
+    { label: 'Insurance', key: 'annualInsurance', color: '#93c5fd' },
+    { label: 'HOA', key: 'annualHoa', color: '#a5b4fc' },
+    { label: 'Maintenance', key: 'annualMaintenance', color: '#c7d2fe' },
+    { label: 'PMI', key: 'annualPmi', color: '#818cf8' },
+    { label: 'Refinance', key: 'annualRefinanceCost', color: '#6366f1' },
+];
+
+// Months covered by a row: 12, or fewer for the partial last row of a fractional horizon
+function monthsIn(data: YearlyData[], index: number): number {
+    return Math.round((data[index].year - data[index - 1].year) * 12);
+}
+
+// Year 0 is the purchase itself, not a month of living costs
+function monthly(data: YearlyData[], pick: (d: YearlyData) => number): number[] {
+    return data.slice(1).map((d, i) => pick(d) / monthsIn(data, i + 1));
+}
+
+function buildDatasets(data: YearlyData[]) {
+    return [
+        ...OWNERSHIP_COMPONENTS.map(component => ({
+            label: component.label,
+            data: monthly(data, d => d[component.key] as number),
+            backgroundColor: component.color,
+            stack: 'own',
+        })),
+        {
+            // Shown below zero: reduces the owner's effective cost
+            label: 'Tax Savings',
+            data: monthly(data, d => -d.annualTaxSavings),
+            backgroundColor: '#86efac',
+            stack: 'own',
+        },
+        {
+            label: 'Rent',
+            data: monthly(data, d => d.annualRent),
+            backgroundColor: '#dc2626',
+            stack: 'rent',
+        },
+        {
+            // Prop 13 annotation: the gap above the property tax bar is what Prop 13 saves
+            type: 'line',
+            label: 'Property Tax without Prop 13',
+            data: monthly(data, d => d.annualPropertyTax + d.annualProp13Savings),
+            borderColor: '#f59e0b',
+            backgroundColor: '#f59e0b',
+            borderDash: [4, 4],
+            pointRadius: 0,
+            fill: false,
+            stack: 'prop13',
+        },
+    ];
+}
+
+export function renderCashFlow(canvas: HTMLCanvasElement, data: YearlyData[], mode: DollarMode): void {
+    const labels = data.slice(1).map(d => `Year ${d.year}`);
+    const datasets = buildDatasets(data);
+
+    if (cashFlowChart) {
+        cashFlowChart.data.labels = labels;
+        cashFlowChart.data.datasets.forEach((dataset: any, i: number) => {
+            dataset.data = datasets[i].data;
+        });
+        cashFlowChart.options.plugins.tooltip.callbacks.footer = tooltipFooter(data, mode);
+        cashFlowChart.options.scales.y.ticks.callback = currencyAxisTicks(mode);
+        cashFlowChart.update();
+        return;
+    }
+
+    cashFlowChart = new Chart(canvas.getContext('2d')!, {
+        type: 'bar',
+        data: { labels, datasets },
+        options: {
+            responsive: true,
+            maintainAspectRatio: false,
+            interaction: {
+                mode: 'index',
+                intersect: false,
+            },
+            plugins: {
+                legend: {
+                    position: 'top',
+                },
+                tooltip: {
+                    filter: (item: any) => item.parsed.y !== 0,
+                    callbacks: {
+                        label: function (context: any) {
+                            return `${context.dataset.label}: ${formatCurrency(context.parsed.y)}/mo`;
+                        },
+                        footer: tooltipFooter(data, mode),
+                    },
+                },
+            },
+            scales: {
+                x: {
+                    stacked: true,
+                },
+                y: {
+                    stacked: true,
+                    ticks: {
+                        callback: currencyAxisTicks(mode),
+                    },
+                },
+            },
+        },
+    });
+}
+
+// Totals for the hovered year
+function tooltipFooter(data: YearlyData[], mode: DollarMode) {
+    return function (tooltipItems: any[]) {
+        const index = tooltipItems[0].dataIndex + 1;
+        const yearData = data[index];
+        if (!yearData) return '';
+
+        const months = monthsIn(data, index);
+        const ownNet = (yearData.annualOwnershipCost - yearData.annualTaxSavings) / months;
+        return [
+            `Owning (after tax): ${formatCurrency(ownNet, mode)}/mo`,
+            `Renting: ${formatCurrency(yearData.annualRent / months, mode)}/mo`,
+        ];
+    };
+}
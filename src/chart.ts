@@ -1,14 +1,69 @@
 // Main entry point - Chart visualization and app initialization
 
-import { calculateNetWorth, findCrossoverYear, YearlyData } from './calculator.js';
-import { getInputElements, readInputs, readYears, setupInputFormatting, formatCurrency } from './inputs.js';
-import { readFromURL, writeToURL, applyURLState } from './url.js';
+import {
+    calculateLoanSchedule,
+    monthlyNetWorth,
+    simulateMonthly,
+    solveBreakeven,
+    yearlyNetWorth,
+    SUPPLEMENTAL_BILL_MONTH,
+    BreakevenField,
+    BreakevenResult,
+    CalculatorInputs,
+    YearlyData,
+} from './calculator.js';
+import { analyzeCrossovers, Crossover, describeLargestLeads, describeLeadChanges } from './crossovers.js';
+import { LocationId } from './locations.js';
+import { runMonteCarloAsync, SimulationResult } from './montecarlo.js';
+import { presetDatasets, reloadPresets, renderPresetButtons, setupPresetBar } from './presetbar.js';
+import { compareBuiltInPresets } from './presets.js';
+import { analyzeSensitivity } from './sensitivity.js';
+import { renderTornado } from './tornado.js';
+import { renderCashFlow } from './cashflow.js';
+import { setupComparePanel, scenarioDatasets, reloadScenarios, renderScenarioTable } from './compare.js';
+import { setupExportButtons, setupImportButton } from './download.js';
+import {
+    applyLocation,
+    getInputElements,
+    readInputs,
+    readYears,
+    setupInputFormatting,
+    setupRefinanceList,
+    showValidationMessages,
+} from './inputs.js';
+import {
+    currencyAxisTicks,
+    DOLLAR_MODE_LABELS,
+    dollarMode,
+    DollarMode,
+    formatCompactCurrency,
+    formatCurrency,
+} from './format.js';
+import { validateInputs, ValidationIssue } from './validation.js';
+import { readFromURL, writeToURL, applyURLState, offerSharedLists } from './url.js';
 
 declare const Chart: any;
 
 const canvas = document.getElementById('chart') as HTMLCanvasElement;
 const ctx = canvas.getContext('2d')!;
 const crossoverInfo = document.getElementById('crossover-info') as HTMLDivElement;
+const uncertaintyToggle = document.getElementById('show-uncertainty') as HTMLInputElement;
+const tornadoCanvas = document.getElementById('tornado-chart') as HTMLCanvasElement;
+const breakevenInfo = document.getElementById('breakeven-info') as HTMLUListElement;
+const scenarioTable = document.getElementById('scenario-table') as HTMLTableElement;
+const validationBanner = document.getElementById('validation-banner') as HTMLDivElement;
+const sharedListsPrompt = document.getElementById('shared-lists-prompt') as HTMLDivElement;
+const chartView = document.getElementById('chart-view') as HTMLSelectElement;
+const netWorthContainer = document.getElementById('net-worth-container') as HTMLDivElement;
+const cashFlowContainer = document.getElementById('cash-flow-container') as HTMLDivElement;
+const cashFlowCanvas = document.getElementById('cash-flow-chart') as HTMLCanvasElement;
+const armFields = document.getElementById('arm-fields') as HTMLDivElement;
+const flatCostFields = document.getElementById('flat-cost-fields') as HTMLDivElement;
+const itemizedCostFields = document.getElementById('itemized-cost-fields') as HTMLDivElement;
+const presetButtons = document.getElementById('preset-buttons') as HTMLDivElement;
+
+// Live Buy/Rent lines plus their uncertainty bands; saved scenarios are appended after these
+const BASE_DATASET_COUNT = 6;
 
 // Get input elements
 const elements = getInputElements();
@@ -16,9 +71,161 @@ const elements = getInputElements();
 // Initialize chart
 let chart: any;
 
+// Shaded P10-P90 band: the P90 edge is drawn first, then P10 fills up to it
+function bandDatasets(label: string, color: string) {
+    return [
+        {
+            label: `${label} P90`,
+            data: [] as number[],
+            band: true,
+            borderWidth: 0,
+            pointRadius: 0,
+            pointHoverRadius: 0,
+            fill: false,
+        },
+        {
+            label: `${label} P10`,
+            data: [] as number[],
+            band: true,
+            borderWidth: 0,
+            pointRadius: 0,
+            pointHoverRadius: 0,
+            backgroundColor: color,
+            fill: '-1',
+        },
+    ];
+}
+
+// Loan payments and interest are contract terms that stay nominal in the today's-dollars view,
+// so they are labeled there
+function contractNote(mode: DollarMode): string {
+    return mode === 'real' ? ` (${DOLLAR_MODE_LABELS.nominal})` : '';
+}
+
+// Tooltip detail lines for the hovered year
+function tooltipDetails(data: YearlyData[], mode: DollarMode, simulation: SimulationResult | null) {
+    return function (tooltipItems: any[]) {
+        const index = tooltipItems[0].dataIndex;
+        const yearData = data[index];
+        if (!yearData || yearData.year === 0) return '';
+
+        const lines = [
+            '',
+            `Home Value: ${formatCurrency(yearData.homeValue)}`,
+            `Home Equity: ${formatCurrency(yearData.homeEquity)}`,
+            `Mortgage Balance: ${formatCurrency(yearData.mortgageBalance)}`,
+            `Annual Ownership Cost: ${formatCurrency(yearData.annualOwnershipCost)}`,
+            `Income Tax Savings: ${formatCurrency(yearData.annualTaxSavings)}`,
+            `Annual Rent: ${formatCurrency(yearData.annualRent)}`,
+            `Renter's Investments: ${formatCurrency(yearData.rentingInvestments)}`,
+            `Owner's Investments: ${formatCurrency(yearData.buyingInvestments)}`,
+            `Selling Costs: ${formatCurrency(yearData.sellingCosts)}`,
+        ];
+        if (yearData.capitalGainsTax > 0) {
+            lines.push(`Capital Gains Tax on Sale: ${formatCurrency(yearData.capitalGainsTax)}`);
+        }
+        if (yearData.rentingInvestmentTax > 0 || yearData.buyingInvestmentTax > 0) {
+            lines.push(
+                `Tax if Investments Sold: ${formatCurrency(yearData.rentingInvestmentTax)} renter, ` +
+                `${formatCurrency(yearData.buyingInvestmentTax)} owner`
+            );
+        }
+        if (yearData.annualDividendTax > 0) {
+            lines.push(`Dividend Tax Paid: ${formatCurrency(yearData.annualDividendTax)}`);
+        }
+        if (yearData.annualPmi > 0) {
+            lines.push(`PMI Paid: ${formatCurrency(yearData.annualPmi)}`);
+        }
+        if (yearData.refinance) {
+            lines.push(
+                `Refinanced: ${formatCurrency(yearData.refinance.newPayment)}/mo ` +
+                `(was ${formatCurrency(yearData.refinance.oldPayment)})${contractNote(mode)}, ` +
+                `${formatCurrency(yearData.annualRefinanceCost)} closing costs`
+            );
+        }
+        if (yearData.annualSupplementalTax !== 0) {
+            lines.push(`Supplemental Tax Bill: ${formatCurrency(yearData.annualSupplementalTax)}`);
+        }
+        if (yearData.cumulativeProp13Savings !== 0) {
+            lines.push(
+                `Prop 13 Savings: ${formatCurrency(yearData.annualProp13Savings)} ` +
+                `(${formatCurrency(yearData.cumulativeProp13Savings)} total)`
+            );
+        }
+        if (simulation) {
+            lines.push(
+                '',
+                `Buy Range (P10-P90): ${formatCurrency(simulation.buy.p10[index])} - ${formatCurrency(simulation.buy.p90[index])}`,
+                `Rent Range (P10-P90): ${formatCurrency(simulation.rent.p10[index])} - ${formatCurrency(simulation.rent.p90[index])}`,
+                `Chance Buying Wins: ${Math.round(simulation.buyWinProbability[index] * 100)}%`
+            );
+        }
+        return lines;
+    };
+}
+
+// Buy/Rent tooltip lines name the dollar mode; the detail lines below share it
+function tooltipLabel(mode: DollarMode) {
+    return function (context: any) {
+        const label = context.dataset.label || '';
+        return `${label}: ${formatCurrency(context.parsed.y, mode)}`;
+    };
+}
+
+// Crossings of the live Buy and Rent lines, dated from the monthly series and marked by
+// the plugin below on the drawn rows
+let crossovers: Crossover[] = [];
+let chartRows: YearlyData[] = [];
+
+// Fractional category index and drawn Buy line height for a year; a partial last row
+// (fractional horizon) sits one index past the last whole year
+function chartPosition(year: number): { index: number; netWorth: number } {
+    const i = Math.max(0, chartRows.findIndex(d => d.year >= year) - 1);
+    const before = chartRows[i];
+    const after = chartRows[i + 1] ?? before;
+    const ratio = after.year > before.year ? (year - before.year) / (after.year - before.year) : 0;
+    return {
+        index: i + ratio,
+        netWorth: before.buyNetWorth + ratio * (after.buyNetWorth - before.buyNetWorth),
+    };
+}
+
+// Point annotation at each crossing, colored by the side that pulls ahead
+const crossoverMarkers = {
+    id: 'crossoverMarkers',
+    afterDatasetsDraw(chart: any) {
+        const { ctx: context, scales } = chart;
+        context.save();
+        for (const crossover of crossovers) {
+            // Category positions are row indexes, so fractional years land between labels
+            const position = chartPosition(crossover.year);
+            const x = scales.x.getPixelForValue(position.index);
+            const y = scales.y.getPixelForValue(position.netWorth);
+            context.beginPath();
+            context.arc(x, y, 6, 0, 2 * Math.PI);
+            context.fillStyle = crossover.direction === 'buy' ? '#2563eb' : '#dc2626';
+            context.fill();
+            context.lineWidth = 2;
+            context.strokeStyle = '#ffffff';
+            context.stroke();
+
+            context.fillStyle = '#374151';
+            context.font = '12px sans-serif';
+            context.textAlign = 'center';
+            context.fillText(`Year ${crossover.year.toFixed(1)}`, x, y - 12);
+        }
+        context.restore();
+    },
+};
+
+function lowerFirst(text: string): string {
+    return text.charAt(0).toLowerCase() + text.slice(1);
+}
+
 function initChart(data: YearlyData[]) {
     chart = new Chart(ctx, {
         type: 'line',
+        plugins: [crossoverMarkers],
         data: {
             labels: data.map(d => d.year === 0 ? 'Now' : `Year ${d.year}`),
             datasets: [
@@ -38,6 +245,8 @@ function initChart(data: YearlyData[]) {
                     tension: 0.1,
                     fill: false,
                 },
+                ...bandDatasets('Buy', 'rgba(37, 99, 235, 0.12)'),
+                ...bandDatasets('Rent', 'rgba(220, 38, 38, 0.12)'),
             ],
         },
         options: {
@@ -50,28 +259,17 @@ function initChart(data: YearlyData[]) {
             plugins: {
                 legend: {
                     position: 'top',
+                    labels: {
+                        filter: (item: any, chartData: any) =>
+                            !chartData.datasets[item.datasetIndex].band &&
+                            !chartData.datasets[item.datasetIndex].hidden,
+                    },
                 },
                 tooltip: {
+                    filter: (item: any) => !item.dataset.band,
                     callbacks: {
-                        label: function (context: any) {
-                            const label = context.dataset.label || '';
-                            const value = formatCurrency(context.parsed.y);
-                            return `${label}: ${value}`;
-                        },
-                        afterBody: function (tooltipItems: any[]) {
-                            const index = tooltipItems[0].dataIndex;
-                            const yearData = data[index];
-                            if (!yearData || yearData.year === 0) return '';
-
-                            return [
-                                '',
-                                `Home Value: ${formatCurrency(yearData.homeValue)}`,
-                                `Home Equity: ${formatCurrency(yearData.homeEquity)}`,
-                                `Mortgage Balance: ${formatCurrency(yearData.mortgageBalance)}`,
-                                `Annual Ownership Cost: ${formatCurrency(yearData.annualOwnershipCost)}`,
-                                `Annual Rent: ${formatCurrency(yearData.annualRent)}`,
-                            ];
-                        },
+                        label: tooltipLabel('nominal'),
+                        afterBody: tooltipDetails(data, 'nominal', null),
                     },
                 },
             },
@@ -79,9 +277,7 @@ function initChart(data: YearlyData[]) {
                 y: {
                     beginAtZero: false,
                     ticks: {
-                        callback: function (value: number) {
-                            return formatCurrency(value);
-                        },
+                        callback: currencyAxisTicks('nominal'),
                     },
                 },
             },
@@ -89,83 +285,340 @@ function initChart(data: YearlyData[]) {
     });
 }
 
+// Problems with the shared link, shown until the user edits the form
+let linkIssues: ValidationIssue[] = [];
+let linkNotice = ''; // The link as a whole; shown in the banner without blocking the chart
+
+// Show field messages and the banner; returns false if errors block the calculation
+function checkInputs(inputs: CalculatorInputs): boolean {
+    const issues = [...validateInputs(inputs), ...linkIssues];
+    showValidationMessages(elements, issues);
+
+    const hasErrors = issues.some(issue => issue.severity === 'error');
+    if (hasErrors) {
+        validationBanner.textContent = 'Fix the highlighted inputs. The chart shows the last valid result.';
+        validationBanner.className = 'validation-banner error';
+    } else if (issues.length > 0 || linkNotice) {
+        const caution = issues.length > 0 ? 'Some inputs look unrealistic. Treat these results with caution.' : '';
+        validationBanner.textContent = [linkNotice, caution].filter(Boolean).join(' ');
+        validationBanner.className = 'validation-banner warning';
+    } else {
+        validationBanner.textContent = '';
+        validationBanner.className = 'validation-banner';
+    }
+    return !hasErrors;
+}
+
 function updateChart() {
     const inputs = readInputs(elements);
     const years = readYears(elements);
+    armFields.hidden = inputs.loan?.type !== 'arm';
+    flatCostFields.hidden = elements.itemizeCosts.checked;
+    itemizedCostFields.hidden = !elements.itemizeCosts.checked;
+    renderPresetButtons(presetButtons, elements, updateChart);
+
+    // Hard errors freeze the last valid chart
+    if (!checkInputs(inputs)) {
+        return;
+    }
+    simulationRun?.abort();
 
-    const data = calculateNetWorth(inputs, years);
+    // One simulation serves the yearly rows and the monthly crossover dates
+    const simulation = simulateMonthly(inputs, years);
+    const data = yearlyNetWorth(inputs, simulation);
+    const mode = dollarMode(inputs.realDollars);
+    const inflation = inputs.inflationRate ?? 0;
+    const analysis = analyzeCrossovers(data);
+    const monthlyAnalysis = analyzeCrossovers(monthlyNetWorth(simulation, inputs.realDollars ? inflation : 0));
+    // Showing every preset replaces the live lines and their bands
+    const showAllPresets = elements.showAllPresets.checked;
 
     // Update chart data
     chart.data.labels = data.map(d => d.year === 0 ? 'Now' : `Year ${d.year}`);
     chart.data.datasets[0].data = data.map(d => d.buyNetWorth);
     chart.data.datasets[1].data = data.map(d => d.rentNetWorth);
+    chart.data.datasets[0].hidden = showAllPresets;
+    chart.data.datasets[1].hidden = showAllPresets;
+    showBands(null);
+    chart.data.datasets = [
+        ...chart.data.datasets.slice(0, BASE_DATASET_COUNT),
+        ...(showAllPresets ? presetDatasets(inputs, years) : []),
+        ...scenarioDatasets(years, inputs.realDollars),
+    ];
 
-    // Update tooltip data reference
-    chart.options.plugins.tooltip.callbacks.afterBody = function (tooltipItems: any[]) {
-        const index = tooltipItems[0].dataIndex;
-        const yearData = data[index];
-        if (!yearData || yearData.year === 0) return '';
-
-        return [
-            '',
-            `Home Value: ${formatCurrency(yearData.homeValue)}`,
-            `Home Equity: ${formatCurrency(yearData.homeEquity)}`,
-            `Mortgage Balance: ${formatCurrency(yearData.mortgageBalance)}`,
-            `Annual Ownership Cost: ${formatCurrency(yearData.annualOwnershipCost)}`,
-            `Annual Rent: ${formatCurrency(yearData.annualRent)}`,
-        ];
-    };
+    // Update tooltip data reference and the dollar mode labels
+    chart.options.plugins.tooltip.callbacks.label = tooltipLabel(mode);
+    chart.options.plugins.tooltip.callbacks.afterBody = tooltipDetails(data, mode, null);
+    chart.options.scales.y.ticks.callback = currencyAxisTicks(mode);
 
+    crossovers = showAllPresets ? [] : monthlyAnalysis.crossovers;
+    chartRows = data;
     chart.update();
 
-    // Update crossover info
-    const crossover = findCrossoverYear(data);
-    if (crossover !== null) {
-        crossoverInfo.textContent = `Buying becomes better than renting at year ${crossover.toFixed(1)}`;
-        crossoverInfo.className = 'crossover-info visible';
-    } else {
-        const finalBuy = data[data.length - 1].buyNetWorth;
-        const finalRent = data[data.length - 1].rentNetWorth;
-        if (finalBuy > finalRent) {
-            crossoverInfo.textContent = `Buying is better from the start`;
-        } else {
-            crossoverInfo.textContent = `Renting remains better through year ${years}`;
+    // Monthly cash flow view (only drawn while visible so it sizes correctly)
+    const showCashFlow = chartView.value === 'cash-flow';
+    netWorthContainer.hidden = showCashFlow;
+    cashFlowContainer.hidden = !showCashFlow;
+    if (showCashFlow) {
+        renderCashFlow(cashFlowCanvas, data, mode);
+    }
+
+    // Update crossover info: every lead change to the month and each side's largest lead
+    // at a yearly row, with the lead changes always also given in real terms
+    const path = describeLeadChanges(monthlyAnalysis, years);
+    crossoverInfo.className = 'crossover-info visible';
+    crossoverInfo.textContent = inputs.realDollars ? `In today's dollars: ${lowerFirst(path)}` : path;
+    if (!inputs.realDollars && inflation !== 0) {
+        const realPath = describeLeadChanges(analyzeCrossovers(monthlyNetWorth(simulation, inflation)), years);
+        crossoverInfo.textContent += ` · In today's dollars at ${(inflation * 100).toFixed(1)}% inflation: ` +
+            lowerFirst(realPath);
+    }
+    for (const lead of describeLargestLeads(analysis, mode)) {
+        crossoverInfo.textContent += ` · ${lead}`;
+    }
+    if (showAllPresets) {
+        const crossings = compareBuiltInPresets(inputs, years).map(({ preset, summary }) =>
+            `${preset.name} ` +
+            (summary.crossoverYear === null ? 'never' : `year ${summary.crossoverYear.toFixed(1)}`)
+        );
+        crossoverInfo.textContent += ` · Buying first pulls ahead by preset: ${crossings.join(', ')}`;
+    }
+
+    // Prop 13 annotation: property tax avoided versus a market-value assessment
+    const prop13Savings = data[data.length - 1].cumulativeProp13Savings;
+    if (inputs.applyProp13 && prop13Savings > 0) {
+        crossoverInfo.textContent += ` · Prop 13 saves ${formatCurrency(prop13Savings, mode)} in property tax over ${years} years`;
+    }
+
+    // The supplemental bill (or refund) after closing, which buyers often miss
+    const supplementalTax = data.length > 1 ? data[1].annualSupplementalTax : 0;
+    if (supplementalTax !== 0) {
+        crossoverInfo.textContent += supplementalTax > 0
+            ? ` · Supplemental tax bill of ${formatCurrency(supplementalTax, mode)} due about ${SUPPLEMENTAL_BILL_MONTH} months after closing`
+            : ` · Supplemental tax refund of ${formatCurrency(-supplementalTax, mode)} about ${SUPPLEMENTAL_BILL_MONTH} months after closing`;
+    }
+
+    // Tax on the gain above the Section 121 exclusion if sold at the horizon
+    const saleTax = data[data.length - 1].capitalGainsTax;
+    if (saleTax > 0) {
+        crossoverInfo.textContent += ` · Selling in year ${years} owes ${formatCurrency(saleTax, mode)} capital gains tax`;
+    }
+
+    // Note when PMI drops off
+    const pmiEndMonth = data[0].pmiEndMonth;
+    if (pmiEndMonth !== null) {
+        crossoverInfo.textContent += ` · PMI ends after month ${pmiEndMonth} (year ${(pmiEndMonth / 12).toFixed(1)})`;
+    }
+
+    // Payment range when the loan's payment changes over time
+    const loan = inputs.loan;
+    if (loan && (loan.type === 'arm' || loan.interestOnlyYears || (loan.buydown ?? 'none') !== 'none')) {
+        const payments = calculateLoanSchedule({ ...inputs, refinances: [] }).rows
+            .map(row => row.payment);
+        if (payments.length > 0) {
+            crossoverInfo.textContent += ` · Mortgage payment starts at ${formatCurrency(payments[0])}/mo` +
+                ` and peaks at ${formatCurrency(Math.max(...payments))}/mo${contractNote(mode)}`;
         }
-        crossoverInfo.className = 'crossover-info visible';
     }
 
+    // Refinances: new payment, lifetime interest saved and when the closing costs pay off
+    for (const d of data) {
+        const refinance = d.refinance;
+        if (!refinance) continue;
+        const breakEven = refinance.breakEvenMonth === null
+            ? 'never breaks even on payments'
+            : `breaks even after ${refinance.breakEvenMonth} months`;
+        crossoverInfo.textContent += ` · Refinance in year ${d.year}: ` +
+            `${formatCurrency(refinance.oldPayment)} → ${formatCurrency(refinance.newPayment)}/mo, ` +
+            `${formatCurrency(Math.abs(refinance.interestSaved))} ` +
+            `${refinance.interestSaved >= 0 ? 'less' : 'more'} interest${contractNote(mode)}, ${breakEven}`;
+    }
+
+    renderScenarioTable(scenarioTable, elements, years, updateChart);
+
     // Update URL
     writeToURL(elements, years);
+
+    debouncedAnalyses(inputs, years, data);
+}
+
+// Breakevens, sensitivity and the simulation bands cost far more than the chart, so they wait
+// until the inputs settle rather than running on every keystroke or slider tick
+function updateAnalyses(inputs: CalculatorInputs, years: number, data: YearlyData[]) {
+    updateBreakevenInfo(inputs, years);
+
+    // Which assumptions matter most
+    renderTornado(tornadoCanvas, analyzeSensitivity(inputs, years), dollarMode(inputs.realDollars));
+
+    // Bands are drawn once the simulation finishes
+    if (uncertaintyToggle.checked && !elements.showAllPresets.checked) {
+        startSimulation(inputs, years, data);
+    }
+}
+
+// The simulation in progress, aborted when a newer update starts
+let simulationRun: AbortController | null = null;
+
+function showBands(simulation: SimulationResult | null) {
+    chart.data.datasets[2].data = simulation ? simulation.buy.p90 : [];
+    chart.data.datasets[3].data = simulation ? simulation.buy.p10 : [];
+    chart.data.datasets[4].data = simulation ? simulation.rent.p90 : [];
+    chart.data.datasets[5].data = simulation ? simulation.rent.p10 : [];
+}
+
+// Run the Monte Carlo paths in chunks off the update, then add the bands, the tooltip
+// ranges and the win chance
+function startSimulation(inputs: CalculatorInputs, years: number, data: YearlyData[]) {
+    const run = new AbortController();
+    simulationRun = run;
+    runMonteCarloAsync(inputs, years, undefined, run.signal).then(simulation => {
+        if (!simulation || run.signal.aborted) return;
+        showBands(simulation);
+        chart.options.plugins.tooltip.callbacks.afterBody = tooltipDetails(data, dollarMode(inputs.realDollars), simulation);
+        chart.update();
+
+        const winChance = Math.round(simulation.buyWinProbability[simulation.buyWinProbability.length - 1] * 100);
+        crossoverInfo.textContent += ` · Buying wins in ${winChance}% of simulations by year ${years}`;
+    });
+}
+
+// Breakeven answers shown under the crossover summary
+const BREAKEVEN_FIELDS: BreakevenField[] = [
+    'homeAppreciationRate',
+    'purchasePrice',
+    'monthlyRent',
+    'mortgageRate',
+];
+
+// subject reads "Buying wins if <subject> exceeds ..."; name reads "at any <name>"
+const BREAKEVEN_TEXT: Record<
+    BreakevenField,
+    { subject: string; name: string; format: (value: number) => string }
+> = {
+    homeAppreciationRate: { subject: 'appreciation', name: 'appreciation', format: v => `${(v * 100).toFixed(1)}%/yr` },
+    rentGrowthRate: { subject: 'rent growth', name: 'rent growth', format: v => `${(v * 100).toFixed(1)}%/yr` },
+    mortgageRate: { subject: 'the mortgage rate', name: 'mortgage rate', format: v => `${(v * 100).toFixed(2)}%` },
+    monthlyRent: { subject: 'rent', name: 'rent', format: v => `${formatCurrency(v)}/mo` },
+    purchasePrice: { subject: 'the price', name: 'price', format: formatCompactCurrency },
+    downPaymentPercent: { subject: 'the down payment', name: 'down payment', format: v => `${v.toFixed(0)}%` },
+};
+
+function describeBreakeven(result: BreakevenResult): string {
+    const { subject, name, format } = BREAKEVEN_TEXT[result.field];
+
+    if (result.value === null) {
+        const winner = result.winner === 'buy' ? 'Buying' : 'Renting';
+        return `${winner} wins at any ${name} from ${format(result.range[0])} to ${format(result.range[1])}`;
+    }
+    if (result.field === 'purchasePrice' && !result.buyWinsAbove) {
+        return `Max price to break even in ${result.years} years: ${format(result.value)}`;
+    }
+    return result.buyWinsAbove
+        ? `Buying wins if ${subject} exceeds ${format(result.value)}`
+        : `Buying wins if ${subject} stays below ${format(result.value)}`;
+}
+
+function updateBreakevenInfo(inputs: CalculatorInputs, years: number) {
+    breakevenInfo.replaceChildren(
+        ...BREAKEVEN_FIELDS.map(field => {
+            const item = document.createElement('li');
+            item.textContent = describeBreakeven(solveBreakeven(inputs, field, years));
+            return item;
+        })
+    );
 }
 
 // Debounce function for input changes
-function debounce(fn: () => void, delay: number) {
+function debounce<Args extends unknown[]>(fn: (...args: Args) => void, delay: number) {
     let timeoutId: number;
-    return () => {
+    return (...args: Args) => {
         clearTimeout(timeoutId);
-        timeoutId = window.setTimeout(fn, delay);
+        timeoutId = window.setTimeout(() => fn(...args), delay);
     };
 }
 
 const debouncedUpdate = debounce(updateChart, 150);
+const debouncedAnalyses = debounce(updateAnalyses, 250);
 
 // Setup event listeners
 function setupEventListeners() {
     // All input fields
     const inputIds = [
+        'location',
         'purchase-price',
         'down-payment',
         'mortgage-rate',
         'monthly-rent',
         'home-appreciation',
         'rent-growth',
+        // Advanced panel
+        'investment-return',
+        'dividend-yield',
+        'inflation-rate',
+        'property-tax-rate',
+        'parcel-tax',
+        'prior-assessed-value',
+        'transferred-base-value',
+        'sold-home-price',
+        'hoa-monthly',
+        'maintenance-rate',
+        'closing-cost-rate',
+        'selling-cost-rate',
+        'insurance-annual',
+        'invest-difference',
+        'filing-status',
+        'federal-tax-rate',
+        'state-tax-rate',
+        'other-salt-taxes',
+        'other-itemized',
+        'capital-gains-rate',
+        'pmi-rate',
+        'pmi-appraisal',
+        'loan-term',
+        'loan-type',
+        'interest-only-years',
+        'buydown',
+        'arm-initial-years',
+        'arm-adjustment',
+        'arm-margin',
+        'arm-index',
+        'arm-periodic-cap',
+        'arm-lifetime-cap',
+        'refinance-list',
+        'itemize-costs',
+        'transfer-tax-city',
+        'buyer-transfer-share',
+        'listing-commission',
+        'buyer-agent-fee',
+        'title-escrow',
+        'loan-points',
+        'lender-fees',
+        // Chart options
+        'apply-prop13',
+        'after-tax-net-worth',
+        'real-dollars',
+        'show-all-presets',
     ];
 
     inputIds.forEach(id => {
         const input = document.getElementById(id) as HTMLInputElement;
-        input.addEventListener('input', debouncedUpdate);
+        input.addEventListener('input', () => {
+            linkIssues = [];
+            linkNotice = '';
+            debouncedUpdate();
+        });
+    });
+
+    // Picking a location fills in its preset fields before the update; "Custom" keeps them
+    elements.location.addEventListener('input', () => {
+        if (elements.location.value) {
+            applyLocation(elements, elements.location.value as LocationId);
+        }
     });
 
+    uncertaintyToggle.addEventListener('change', updateChart);
+    chartView.addEventListener('change', updateChart);
+
     // Years slider (immediate update)
     elements.yearsSlider.addEventListener('input', () => {
         elements.yearsValue.textContent = elements.yearsSlider.value;
@@ -178,23 +631,40 @@ function init() {
     // Apply URL state if present
     const urlState = readFromURL();
     applyURLState(elements, urlState);
+    linkIssues = urlState.issues ?? [];
+    linkNotice = urlState.notice ?? '';
 
     // Setup input formatting (commas for price fields)
     setupInputFormatting(elements);
+    setupRefinanceList(elements);
+    setupExportButtons(elements);
+    setupImportButton(elements, () => {
+        linkIssues = [];
+        linkNotice = '';
+        updateChart();
+    });
 
-    // Calculate initial data
-    const inputs = readInputs(elements);
-    const years = readYears(elements);
-    const data = calculateNetWorth(inputs, years);
+    // Saved scenarios from localStorage
+    setupComparePanel(elements, updateChart);
+    setupPresetBar(elements, updateChart);
 
-    // Initialize chart
-    initChart(data);
+    // Initialize an empty chart; updateChart fills it once the inputs are valid
+    initChart([]);
 
     // Setup event listeners
     setupEventListeners();
 
     // Initial crossover calculation
     updateChart();
+
+    // Asked only once the chart is up
+    if (urlState.shared) {
+        offerSharedLists(sharedListsPrompt, urlState.shared, () => {
+            reloadScenarios();
+            reloadPresets();
+            updateChart();
+        });
+    }
 }
 
 // Run when DOM is ready
@@ -0,0 +1,51 @@
+#!/usr/bin/env node
+// Command-line entry point: run one scenario from options, or a batch file of scenarios
+
+import { readFileSync } from 'node:fs';
+import { parseCommandLine, USAGE } from './commandline.js';
+import { buildReport, formatReportsJSON, formatReportsTable } from './report.js';
+import { EXPORT_SCHEMA_VERSION } from './export.js';
+import { parseScenarioBatch, ScenarioFile } from './scenariofile.js';
+
+function fail(errors: string[]): never {
+    process.stderr.write(errors.map(error => `rentvsbuy: ${error}\n`).join(''));
+    process.exit(1);
+}
+
+function warn(warnings: string[]): void {
+    process.stderr.write(warnings.map(warning => `rentvsbuy: warning: ${warning}\n`).join(''));
+}
+
+function main(): void {
+    const parsed = parseCommandLine(process.argv.slice(2));
+    if (!parsed.ok) {
+        fail([...parsed.errors, 'Run rentvsbuy --help for usage']);
+    }
+    const { command } = parsed;
+    if (command.help) {
+        process.stdout.write(USAGE);
+        return;
+    }
+    warn(parsed.warnings);
+
+    let scenarios: ScenarioFile[] = [{ schemaVersion: EXPORT_SCHEMA_VERSION, inputs: command.inputs }];
+    if (command.batchFile !== undefined) {
+        let text: string;
+        try {
+            text = readFileSync(command.batchFile, 'utf8');
+        } catch (error) {
+            fail([`Could not read ${command.batchFile}: ${(error as Error).message}`]);
+        }
+        const batch = parseScenarioBatch(text, command.inputs);
+        if (!batch.ok) {
+            fail(batch.errors.map(error => `${command.batchFile}: ${error}`));
+        }
+        warn(batch.warnings);
+        scenarios = batch.scenarios;
+    }
+
+    const reports = scenarios.map(scenario => buildReport(scenario, command.years));
+    process.stdout.write(command.format === 'json' ? formatReportsJSON(reports) + '\n' : formatReportsTable(reports));
+}
+
+main();
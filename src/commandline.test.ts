@@ -0,0 +1,105 @@
+import { CLI_DEFAULT_INPUTS, parseCommandLine } from './commandline';
+
+describe('parseCommandLine', () => {
+    it('uses the page defaults with no options', () => {
+        expect(parseCommandLine([])).toEqual({
+            ok: true,
+            command: { inputs: CLI_DEFAULT_INPUTS, years: 10, format: 'table', batchFile: undefined, help: false },
+            warnings: [],
+        });
+    });
+
+    it('reads rates in percent and amounts in dollars', () => {
+        const result = parseCommandLine([
+            '--price', '1,200,000', '--down', '25', '--rate', '6.25', '--rent', '$3,800',
+            '--years', '15', '--format', 'json', '--filing', 'single', '--term', '15', '--no-prop13',
+            '--inflation', '3', '--real',
+        ]);
+
+        expect(result.ok).toBe(true);
+        const command = result.ok ? result.command : undefined;
+        expect(command?.inputs).toEqual({
+            ...CLI_DEFAULT_INPUTS,
+            purchasePrice: 1200000,
+            downPaymentPercent: 25,
+            mortgageRate: 0.0625,
+            monthlyRent: 3800,
+            filingStatus: 'single',
+            applyProp13: false,
+            inflationRate: 0.03,
+            realDollars: true,
+            loan: { type: 'fixed', termYears: 15 },
+        });
+        expect(command?.years).toBe(15);
+        expect(command?.format).toBe('json');
+    });
+
+    it('reads the Prop 13 base year options', () => {
+        const result = parseCommandLine(['--assessed', '500,000', '--transferbase', '600000', '--soldprice', '$1,400,000']);
+        expect(result.ok && result.command.inputs).toMatchObject({
+            priorAssessedValue: 500000,
+            transferredBaseValue: 600000,
+            soldHomePrice: 1400000,
+        });
+    });
+
+    it('reports malformed, unknown and out-of-range options', () => {
+        expect(parseCommandLine(['--price', 'lots', '--term', '40', '--years', '50'])).toEqual({
+            ok: false,
+            errors: [
+                '--price must be a number',
+                '--term must be one of 30, 20, 15, 10',
+                '--years must be from 1 to 30 in whole months',
+            ],
+        });
+        expect(parseCommandLine(['--down', '150'])).toEqual({
+            ok: false,
+            errors: ['--down: Down payment must be between 0% and 100%'],
+        });
+        expect(parseCommandLine(['--bogus']).ok).toBe(false);
+    });
+
+    it('accepts fractional horizons in whole months', () => {
+        const result = parseCommandLine(['--years', '7.5']);
+        expect(result.ok && result.command.years).toBe(7.5);
+        expect(parseCommandLine(['--years', '7.3'])).toEqual({
+            ok: false,
+            errors: ['--years must be from 1 to 30 in whole months'],
+        });
+    });
+
+    it('starts from a location preset that other options override', () => {
+        const result = parseCommandLine(['--location', 'berkeley', '--ptax', '1.25']);
+        const command = result.ok ? result.command : undefined;
+        expect(command?.inputs).toMatchObject({
+            location: 'berkeley',
+            propertyTaxRate: 0.0125,
+            parcelTaxAnnual: 3000,
+            homeAppreciationRate: 0.04,
+            rentGrowthRate: 0.025,
+        });
+        expect(parseCommandLine(['--location', 'fresno']).ok).toBe(false);
+    });
+
+    it('applies an assumption preset after the location', () => {
+        const result = parseCommandLine(['--location', 'oakland', '--preset', 'conservative', '--invest', '6']);
+        const command = result.ok ? result.command : undefined;
+        expect(command?.inputs).toMatchObject({
+            propertyTaxRate: 0.0137,
+            homeAppreciationRate: 0.02,
+            rentGrowthRate: 0.02,
+            investmentReturnRate: 0.06,
+            maintenanceRate: 0.015,
+        });
+    });
+
+    it('passes warnings through without failing', () => {
+        const result = parseCommandLine(['--hoa', '9000']);
+        expect(result.ok && result.warnings).toEqual(['--hoa: HOA fees seems unrealistic (usually under $5,000)']);
+    });
+
+    it('accepts a batch file', () => {
+        const result = parseCommandLine(['--batch', 'sweep.json', '--rate', '6']);
+        expect(result.ok && result.command.batchFile).toBe('sweep.json');
+    });
+});
@@ -0,0 +1,214 @@
+// Command-line options for the rentvsbuy CLI, using the same short names as legacy links
+
+import { parseArgs } from 'node:util';
+import { CalculatorInputs, DEFAULT_INPUTS } from './calculator.js';
+import { applyLocationPreset, LocationId, LOCATION_PRESETS } from './locations.js';
+import { applyPreset, BUILT_IN_PRESETS } from './presets.js';
+import { HORIZON_RULE, isValidHorizon, MAX_YEARS, MIN_YEARS } from './scenariofile.js';
+import { FilingStatus } from './tax.js';
+import { NumericField, validateInputs } from './validation.js';
+
+export type OutputFormat = 'json' | 'table';
+
+export interface CommandLine {
+    inputs: CalculatorInputs; // Defaults with options applied; also the base for batch scenarios
+    years: number;
+    format: OutputFormat;
+    batchFile?: string; // JSON list of scenarios to run instead of a single one
+    help: boolean;
+}
+
+export type CommandLineResult =
+    | { ok: true; command: CommandLine; warnings: string[] }
+    | { ok: false; errors: string[] };
+
+// Same starting point as the page
+export const CLI_DEFAULT_INPUTS = {
+    ...DEFAULT_INPUTS,
+    purchasePrice: 1500000,
+    downPaymentPercent: 20,
+    mortgageRate: 0.065,
+    monthlyRent: 4000,
+    homeAppreciationRate: 0.04,
+    rentGrowthRate: 0.03,
+} as CalculatorInputs;
+
+const DEFAULT_YEARS = 10;
+
+// Rates are given in percent like the form (--rate 6.5) and stored as decimals
+const NUMBER_OPTIONS: Record<string, { field: NumericField; percent: boolean }> = {
+    price: { field: 'purchasePrice', percent: false },
+    down: { field: 'downPaymentPercent', percent: false },
+    rate: { field: 'mortgageRate', percent: true },
+    rent: { field: 'monthlyRent', percent: false },
+    appreciation: { field: 'homeAppreciationRate', percent: true },
+    rentgrowth: { field: 'rentGrowthRate', percent: true },
+    invest: { field: 'investmentReturnRate', percent: true },
+    dividend: { field: 'dividendYield', percent: true },
+    ptax: { field: 'propertyTaxRate', percent: true },
+    parcel: { field: 'parcelTaxAnnual', percent: false },
+    assessed: { field: 'priorAssessedValue', percent: false },
+    transferbase: { field: 'transferredBaseValue', percent: false },
+    soldprice: { field: 'soldHomePrice', percent: false },
+    hoa: { field: 'hoaMonthly', percent: false },
+    maint: { field: 'maintenanceRate', percent: true },
+    closing: { field: 'closingCostRate', percent: true },
+    selling: { field: 'sellingCostRate', percent: true },
+    insurance: { field: 'insuranceAnnual', percent: false },
+    fed: { field: 'federalTaxRate', percent: true },
+    state: { field: 'stateTaxRate', percent: true },
+    salt: { field: 'otherSaltTaxes', percent: false },
+    itemized: { field: 'otherItemizedDeductions', percent: false },
+    capgains: { field: 'federalCapitalGainsRate', percent: true },
+    inflation: { field: 'inflationRate', percent: true },
+    pmi: { field: 'pmiRate', percent: true },
+};
+
+const CHOICES = {
+    filing: ['single', 'married'],
+    surplus: ['both', 'renter'],
+    term: ['30', '20', '15', '10'],
+    format: ['table', 'json'],
+    location: Object.keys(LOCATION_PRESETS) as LocationId[],
+    preset: BUILT_IN_PRESETS.map(preset => preset.name.toLowerCase()),
+} as const;
+
+export const USAGE = `Usage: rentvsbuy [options]
+       rentvsbuy --batch scenarios.json [options]
+
+Prints net worth by year and the crossover for buying vs. renting.
+
+Options (rates in percent, amounts in dollars):
+  --price, --down, --rate, --rent, --appreciation, --rentgrowth
+  --invest, --dividend, --ptax, --parcel, --hoa, --maint, --closing, --selling, --insurance
+  --fed, --state, --salt, --itemized, --capgains, --pmi, --inflation
+  --assessed                   Seller's assessed value, for the supplemental tax bill
+  --transferbase, --soldprice  Prop 19 base value carried over from a home sold at 55+,
+                               and that home's sale price
+  --filing single|married      --surplus both|renter
+  --term 30|20|15|10           --no-prop13      --pmi-appraisal
+  --location ID                Bay Area preset for --ptax, --parcel, --appreciation and
+                               --rentgrowth; those options still override it. IDs:
+                               san-francisco, san-mateo, san-mateo-county, palo-alto,
+                               san-jose, santa-clara-county, oakland, berkeley, hayward,
+                               alameda-county, richmond, contra-costa-county
+  --preset conservative|moderate|aggressive
+                               Assumption set for --appreciation, --rentgrowth, --invest
+                               and --maint, applied after --location; options override it
+  --pre-tax                    Net worth before taxes on selling the home and investments
+  --real                       Amounts in today's dollars, deflated at --inflation
+  --years N                    Time horizon, ${MIN_YEARS}-${MAX_YEARS}; fractions like 7.5 sell mid-year (default ${DEFAULT_YEARS})
+  --format table|json          Output format (default table)
+  --batch FILE                 JSON list of { "name", "years", "inputs" } scenarios;
+                               inputs they leave out come from the options above
+  -h, --help                   Show this help
+`;
+
+function parseChoice<K extends keyof typeof CHOICES>(
+    option: K,
+    value: string | undefined,
+    errors: string[]
+): (typeof CHOICES)[K][number] | undefined {
+    if (value === undefined) return undefined;
+    const allowed: readonly string[] = CHOICES[option];
+    if (!allowed.includes(value)) {
+        errors.push(`--${option} must be one of ${allowed.join(', ')}`);
+        return undefined;
+    }
+    return value as (typeof CHOICES)[K][number];
+}
+
+// Parse arguments (without the node and script paths) into inputs and output settings
+export function parseCommandLine(args: string[]): CommandLineResult {
+    const stringOption = { type: 'string' } as const;
+    let values: Record<string, string | boolean | undefined>;
+    try {
+        ({ values } = parseArgs({
+            args,
+            options: {
+                ...Object.fromEntries(Object.keys(NUMBER_OPTIONS).map(name => [name, stringOption])),
+                location: stringOption,
+                preset: stringOption,
+                filing: stringOption,
+                surplus: stringOption,
+                term: stringOption,
+                years: stringOption,
+                format: stringOption,
+                batch: stringOption,
+                'no-prop13': { type: 'boolean' },
+                'pmi-appraisal': { type: 'boolean' },
+                'pre-tax': { type: 'boolean' },
+                real: { type: 'boolean' },
+                help: { type: 'boolean', short: 'h' },
+            },
+        }));
+    } catch (error) {
+        return { ok: false, errors: [(error as Error).message] };
+    }
+
+    const errors: string[] = [];
+    const location = parseChoice('location', values.location as string | undefined, errors);
+    // A location preset is the starting point; explicit options override its fields
+    let inputs: CalculatorInputs = location
+        ? applyLocationPreset(CLI_DEFAULT_INPUTS, location)
+        : { ...CLI_DEFAULT_INPUTS };
+    const preset = parseChoice('preset', values.preset as string | undefined, errors);
+    if (preset) {
+        inputs = applyPreset(inputs, BUILT_IN_PRESETS.find(p => p.name.toLowerCase() === preset)!);
+    }
+    const optionFor: Partial<Record<string, string>> = {};
+
+    for (const [name, { field, percent }] of Object.entries(NUMBER_OPTIONS)) {
+        const raw = values[name] as string | undefined;
+        if (raw === undefined) continue;
+        const value = Number(raw.replace(/[$,%\s]/g, ''));
+        if (raw.trim() === '' || !Number.isFinite(value)) {
+            errors.push(`--${name} must be a number`);
+            continue;
+        }
+        inputs[field] = percent ? value / 100 : value;
+        optionFor[field] = name;
+    }
+
+    const filing = parseChoice('filing', values.filing as string | undefined, errors);
+    if (filing) inputs.filingStatus = filing as FilingStatus;
+    const surplus = parseChoice('surplus', values.surplus as string | undefined, errors);
+    if (surplus) inputs.investDifference = surplus;
+    const term = parseChoice('term', values.term as string | undefined, errors);
+    if (term) inputs.loan = { ...inputs.loan!, termYears: Number(term) };
+    if (values['no-prop13']) inputs.applyProp13 = false;
+    if (values['pmi-appraisal']) inputs.pmiCancelAtAppraisal = true;
+    if (values['pre-tax']) inputs.afterTaxNetWorth = false;
+    if (values.real) inputs.realDollars = true;
+
+    let years = DEFAULT_YEARS;
+    if (values.years !== undefined) {
+        years = Number(values.years);
+        if (!isValidHorizon(years)) {
+            errors.push(`--years must be ${HORIZON_RULE}`);
+        }
+    }
+    const format = parseChoice('format', values.format as string | undefined, errors) ?? 'table';
+
+    // Range checks use the form's rules, reported against the option that set the value
+    const issues = validateInputs(inputs).map(issue => {
+        const option = optionFor[issue.field];
+        return { ...issue, message: option ? `--${option}: ${issue.message}` : issue.message };
+    });
+    errors.push(...issues.filter(issue => issue.severity === 'error').map(issue => issue.message));
+    if (errors.length > 0) {
+        return { ok: false, errors };
+    }
+
+    return {
+        ok: true,
+        command: {
+            inputs,
+            years,
+            format,
+            batchFile: values.batch as string | undefined,
+            help: values.help === true,
+        },
+        warnings: issues.map(issue => issue.message),
+    };
+}
@@ -0,0 +1,178 @@
+// Scenario comparison panel: save, overlay and summarize named scenarios
+
+import { calculateNetWorth, CalculatorInputs } from './calculator.js';
+import { formatCurrency } from './format.js';
+import { InputElements, readInputs, writeInputs } from './inputs.js';
+import { validateInputs } from './validation.js';
+import {
+    SavedScenario,
+    loadScenarios,
+    saveScenario,
+    deleteScenario,
+    setScenarioVisible,
+    scenarioColor,
+    summarizeScenario,
+} from './scenarios.js';
+
+let scenarios: SavedScenario[] = [];
+
+// Saved scenarios are shown in the live view's dollars, at their own inflation rate
+function inViewDollars(inputs: CalculatorInputs, realDollars: boolean | undefined): CalculatorInputs {
+    return { ...inputs, realDollars };
+}
+
+// Chart.js datasets for every visible scenario: solid Buy line, dashed Rent line
+export function scenarioDatasets(years: number, realDollars: boolean | undefined): any[] {
+    const datasets: any[] = [];
+
+    scenarios.forEach((scenario, index) => {
+        if (!scenario.visible) return;
+
+        const color = scenarioColor(index);
+        const data = calculateNetWorth(inViewDollars(scenario.inputs, realDollars), years);
+        datasets.push(
+            {
+                label: `${scenario.name} · Buy`,
+                data: data.map(d => d.buyNetWorth),
+                borderColor: color,
+                backgroundColor: color,
+                tension: 0.1,
+                fill: false,
+            },
+            {
+                label: `${scenario.name} · Rent`,
+                data: data.map(d => d.rentNetWorth),
+                borderColor: color,
+                backgroundColor: color,
+                borderDash: [6, 4],
+                tension: 0.1,
+                fill: false,
+            }
+        );
+    });
+
+    return datasets;
+}
+
+function formatCrossover(year: number | null): string {
+    return year === null ? '—' : `Year ${year.toFixed(1)}`;
+}
+
+// Side-by-side summary of the live inputs and every saved scenario
+export function renderScenarioTable(
+    table: HTMLTableElement,
+    elements: InputElements,
+    years: number,
+    onChange: () => void
+): void {
+    const body = table.tBodies[0];
+    const rows: HTMLTableRowElement[] = [];
+
+    const inputs = readInputs(elements);
+    const current = summarizeScenario(inputs, years);
+    const currentRow = document.createElement('tr');
+    currentRow.className = 'current';
+    currentRow.append(
+        cell(''),
+        cell('Current inputs'),
+        cell(formatCurrency(current.finalBuyNetWorth)),
+        cell(formatCurrency(current.finalRentNetWorth)),
+        cell(formatCrossover(current.crossoverYear)),
+        cell('')
+    );
+    rows.push(currentRow);
+
+    scenarios.forEach((scenario, index) => {
+        const summary = summarizeScenario(inViewDollars(scenario.inputs, inputs.realDollars), years);
+        const row = document.createElement('tr');
+
+        const toggle = document.createElement('input');
+        toggle.type = 'checkbox';
+        toggle.checked = scenario.visible;
+        toggle.title = 'Show on chart';
+        toggle.addEventListener('change', () => {
+            scenarios = setScenarioVisible(window.localStorage, scenario.id, toggle.checked);
+            onChange();
+        });
+
+        const swatch = document.createElement('span');
+        swatch.className = 'scenario-swatch';
+        swatch.style.background = scenarioColor(index);
+        const name = cell('');
+        name.append(swatch, scenario.name);
+
+        const load = button('Load', () => {
+            writeInputs(elements, scenario.inputs);
+            onChange();
+        });
+        const remove = button('Delete', () => {
+            scenarios = deleteScenario(window.localStorage, scenario.id);
+            onChange();
+        });
+        const actions = cell('');
+        actions.append(load, remove);
+
+        const toggleCell = cell('');
+        toggleCell.append(toggle);
+
+        row.append(
+            toggleCell,
+            name,
+            cell(formatCurrency(summary.finalBuyNetWorth)),
+            cell(formatCurrency(summary.finalRentNetWorth)),
+            cell(formatCrossover(summary.crossoverYear)),
+            actions
+        );
+        rows.push(row);
+    });
+
+    body.replaceChildren(...rows);
+}
+
+function cell(text: string): HTMLTableCellElement {
+    const td = document.createElement('td');
+    td.textContent = text;
+    return td;
+}
+
+function button(label: string, onClick: () => void): HTMLButtonElement {
+    const el = document.createElement('button');
+    el.type = 'button';
+    el.className = 'link-button';
+    el.textContent = label;
+    el.addEventListener('click', onClick);
+    return el;
+}
+
+// Pick up scenarios added to localStorage elsewhere, e.g. from a shared link
+export function reloadScenarios(): void {
+    scenarios = loadScenarios(window.localStorage);
+}
+
+// Wire up the save form and load scenarios from localStorage
+export function setupComparePanel(elements: InputElements, onChange: () => void): void {
+    reloadScenarios();
+
+    const nameInput = document.getElementById('scenario-name') as HTMLInputElement;
+    const saveButton = document.getElementById('save-scenario') as HTMLButtonElement;
+
+    const save = () => {
+        const inputs = readInputs(elements);
+        if (!nameInput.value.trim()) {
+            nameInput.focus();
+            return;
+        }
+        // Only valid inputs can be saved
+        if (validateInputs(inputs).some(issue => issue.severity === 'error')) {
+            return;
+        }
+        scenarios = saveScenario(window.localStorage, nameInput.value, inputs);
+        nameInput.value = '';
+        onChange();
+    };
+
+    saveButton.addEventListener('click', save);
+    nameInput.addEventListener('keydown', event => {
+        if (event.key === 'Enter') save();
+    });
+}
@@ -0,0 +1,116 @@
+import {
+    calculateMonthlyNetWorth,
+    calculateNetWorth,
+    CalculatorInputs,
+    findCrossoverYear,
+    NetWorthPoint,
+} from './calculator';
+import { analyzeCrossovers, describeLargestLeads, describeLeadChanges } from './crossovers';
+import { CLI_DEFAULT_INPUTS } from './commandline';
+
+// Net worth series from [buy, rent] pairs, one per year
+function series(points: Array<[number, number]>): NetWorthPoint[] {
+    return points.map(([buyNetWorth, rentNetWorth], year) => ({ year, buyNetWorth, rentNetWorth }));
+}
+
+describe('analyzeCrossovers', () => {
+    // Rent that never grows falls behind the owner's appreciation, then the mortgage. Without
+    // income tax, so the owner's deductions don't keep buying ahead.
+    const flatRent: CalculatorInputs = {
+        ...CLI_DEFAULT_INPUTS,
+        federalTaxRate: undefined,
+        stateTaxRate: undefined,
+        purchasePrice: 1000000,
+        monthlyRent: 6000,
+        homeAppreciationRate: 0.05,
+        rentGrowthRate: 0,
+    };
+
+    it('finds every crossing with its direction and interpolated time', () => {
+        const analysis = analyzeCrossovers(series([
+            [100, 200], // Rent ahead by 100
+            [260, 240], // Buy ahead by 20
+            [400, 300], // Buy ahead by 100
+            [350, 400], // Rent ahead by 50
+        ]));
+
+        expect(analysis.startsAhead).toBe('rent');
+        expect(analysis.crossovers).toHaveLength(2);
+        expect(analysis.crossovers[0].direction).toBe('buy');
+        expect(analysis.crossovers[0].year).toBeCloseTo(100 / 120, 10);
+        expect(analysis.crossovers[0].netWorth).toBeCloseTo(100 + (100 / 120) * 160, 10);
+        expect(analysis.crossovers[1].direction).toBe('rent');
+        expect(analysis.crossovers[1].year).toBeCloseTo(2 + 100 / 150, 10);
+    });
+
+    it('reports the largest lead for each side', () => {
+        const { largestLead } = analyzeCrossovers(series([[100, 200], [260, 240], [400, 300], [350, 400]]));
+        expect(largestLead.buy).toEqual({ year: 2, amount: 100 });
+        expect(largestLead.rent).toEqual({ year: 0, amount: 100 });
+    });
+
+    it('agrees with the first crossing of findCrossoverYear at ties', () => {
+        const analysis = analyzeCrossovers(series([[100, 100], [200, 150]]));
+        expect(analysis.crossovers).toEqual([{ year: 0, direction: 'buy', netWorth: 100 }]);
+        expect(analysis.startsAhead).toBe('rent');
+    });
+
+    it('catches renting pulling ahead again when rent stays flat', () => {
+        const data = calculateNetWorth(flatRent, 30);
+        const { crossovers } = analyzeCrossovers(data);
+
+        expect(crossovers.map(c => c.direction)).toEqual(['buy', 'rent']);
+        expect(crossovers[0].year).toBe(findCrossoverYear(data));
+        expect(crossovers[1].year).toBeGreaterThan(20);
+    });
+
+    it('dates each crossing between consecutive months of the monthly series', () => {
+        const series = calculateMonthlyNetWorth(flatRent, 30);
+        const monthly = analyzeCrossovers(series).crossovers;
+        const yearly = analyzeCrossovers(calculateNetWorth(flatRent, 30)).crossovers;
+
+        expect(monthly.map(c => c.direction)).toEqual(['buy', 'rent']);
+        for (const crossover of monthly) {
+            const month = Math.ceil(crossover.year * 12);
+            const gapBefore = series[month - 1].buyNetWorth - series[month - 1].rentNetWorth;
+            const gapAfter = series[month].buyNetWorth - series[month].rentNetWorth;
+            expect(crossover.direction === 'buy' ? gapBefore <= 0 && gapAfter > 0 : gapBefore > 0 && gapAfter <= 0)
+                .toBe(true);
+        }
+        monthly.forEach((crossover, i) => expect(Math.abs(crossover.year - yearly[i].year)).toBeLessThan(1));
+    });
+
+    it('has no crossings or lead for the trailing side when one side always leads', () => {
+        const analysis = analyzeCrossovers(series([[300, 200], [400, 250]]));
+        expect(analysis.startsAhead).toBe('buy');
+        expect(analysis.crossovers).toEqual([]);
+        expect(analysis.largestLead.rent).toBeNull();
+    });
+});
+
+describe('describeLeadChanges', () => {
+    it('describes each lead change', () => {
+        const analysis = analyzeCrossovers(series([[100, 200], [260, 240], [400, 300], [350, 400]]));
+        expect(describeLeadChanges(analysis, 3))
+            .toBe('Renting leads until year 0.8 (month 10), then buying until year 2.7 (month 32), ' +
+                'then renting through year 3');
+    });
+
+    it('says when one side stays ahead or neither does', () => {
+        expect(describeLeadChanges(analyzeCrossovers(series([[300, 200], [400, 250]])), 1))
+            .toBe('Buying stays ahead through year 1');
+        expect(describeLeadChanges(analyzeCrossovers(series([[100, 100]])), 0))
+            .toBe('Buying and renting stay even through year 0');
+    });
+});
+
+describe('describeLargestLeads', () => {
+    it('lists the sides that lead, labeling the dollar mode', () => {
+        expect(describeLargestLeads(analyzeCrossovers(series([[100, 200], [260, 240], [400, 300]])))).toEqual([
+            'Buying is furthest ahead in year 2, by $100',
+            'Renting is furthest ahead in year 0, by $100',
+        ]);
+        expect(describeLargestLeads(analyzeCrossovers(series([[300, 200], [400, 250]])), 'real'))
+            .toEqual(['Buying is furthest ahead in year 1, by $150 (today\'s $)']);
+    });
+});
@@ -0,0 +1,114 @@
+// Every point where buying and renting trade the lead, and how the lead evolves
+
+import { NetWorthPoint } from './calculator.js';
+import { DollarMode, formatCurrency } from './format.js';
+
+export type Side = 'buy' | 'rent';
+
+export interface Crossover {
+    year: number; // Interpolated between the points, yearly or monthly
+    direction: Side; // Side that pulls ahead at this crossing
+    netWorth: number; // Both sides' net worth at the crossing
+}
+
+export interface Lead {
+    year: number;
+    amount: number; // Net worth advantage over the other side
+}
+
+export interface CrossoverAnalysis {
+    startsAhead: Side | null; // Side ahead before the first crossing, null if always even
+    crossovers: Crossover[];
+    largestLead: Record<Side, Lead | null>; // null if that side is never ahead
+}
+
+const SIDE_NAMES: Record<Side, string> = { buy: 'buying', rent: 'renting' };
+
+// Buying is ahead only when strictly above renting, matching findCrossoverYear.
+// Takes yearly rows or calculateMonthlyNetWorth's monthly series.
+export function analyzeCrossovers(data: NetWorthPoint[]): CrossoverAnalysis {
+    const gaps = data.map(d => d.buyNetWorth - d.rentNetWorth);
+    const crossovers: Crossover[] = [];
+
+    for (let i = 1; i < data.length; i++) {
+        const prev = gaps[i - 1];
+        const curr = gaps[i];
+        const direction: Side | null =
+            prev <= 0 && curr > 0 ? 'buy' : prev > 0 && curr <= 0 ? 'rent' : null;
+        if (!direction) continue;
+
+        const ratio = prev / (prev - curr);
+        const before = data[i - 1];
+        const after = data[i];
+        crossovers.push({
+            year: before.year + ratio * (after.year - before.year),
+            direction,
+            netWorth: before.buyNetWorth + ratio * (after.buyNetWorth - before.buyNetWorth),
+        });
+    }
+
+    const firstLead = gaps.find(gap => gap !== 0);
+    const startsAhead: Side | null = crossovers.length > 0
+        ? (crossovers[0].direction === 'buy' ? 'rent' : 'buy')
+        : firstLead === undefined ? null : firstLead > 0 ? 'buy' : 'rent';
+
+    return {
+        startsAhead,
+        crossovers,
+        largestLead: {
+            buy: largestLead(data, gaps),
+            rent: largestLead(data, gaps.map(gap => -gap)),
+        },
+    };
+}
+
+function largestLead(data: NetWorthPoint[], leads: number[]): Lead | null {
+    let best: Lead | null = null;
+    for (let i = 0; i < leads.length; i++) {
+        if (leads[i] > 0 && (!best || leads[i] > best.amount)) {
+            best = { year: data[i].year, amount: leads[i] };
+        }
+    }
+    return best;
+}
+
+function capitalize(text: string): string {
+    return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+// A crossing as "year 4.3 (month 52)", naming the first whole month the new side is ahead.
+// Rounding first keeps a crossing exactly on a month boundary from spilling into the next.
+function formatCrossing(year: number): string {
+    const month = Math.ceil(Math.round(year * 12 * 1e6) / 1e6);
+    return `year ${year.toFixed(1)} (month ${month})`;
+}
+
+// Who leads when, e.g. "Renting leads until year 4.3 (month 52), then buying through year 30"
+export function describeLeadChanges(analysis: CrossoverAnalysis, years: number): string {
+    const { startsAhead, crossovers } = analysis;
+    if (!startsAhead) {
+        return `Buying and renting stay even through year ${years}`;
+    }
+    if (crossovers.length === 0) {
+        return `${capitalize(SIDE_NAMES[startsAhead])} stays ahead through year ${years}`;
+    }
+
+    let path = `${capitalize(SIDE_NAMES[startsAhead])} leads until ${formatCrossing(crossovers[0].year)}`;
+    crossovers.forEach((crossover, i) => {
+        const next = crossovers[i + 1];
+        path += `, then ${SIDE_NAMES[crossover.direction]}` +
+            (next ? ` until ${formatCrossing(next.year)}` : ` through year ${years}`);
+    });
+    return path;
+}
+
+// When and by how much each side is furthest ahead, for the sides that ever lead
+export function describeLargestLeads(analysis: CrossoverAnalysis, mode?: DollarMode): string[] {
+    return (['buy', 'rent'] as const)
+        .filter(side => analysis.largestLead[side])
+        .map(side => {
+            const lead = analysis.largestLead[side]!;
+            return `${capitalize(SIDE_NAMES[side])} is furthest ahead in year ${lead.year}, ` +
+                `by ${formatCurrency(lead.amount, mode)}`;
+        });
+}
@@ -0,0 +1,85 @@
+// Download buttons for exporting the current calculation, and scenario file import
+
+import { buildExport, inputsToCSV, scheduleToCSV, toJSON, yearlyToCSV, ExportBundle } from './export.js';
+import { InputElements, readInputs, readYears } from './inputs.js';
+import { validateInputs } from './validation.js';
+import { ImportResult, parseScenarioFile } from './scenariofile.js';
+import { applyScenarioFile } from './url.js';
+
+// Save text as a file through a temporary object URL
+function saveFile(filename: string, content: string, type: string): void {
+    const url = URL.createObjectURL(new Blob([content], { type }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    link.click();
+    // Revoking right away can cancel the download in some browsers
+    setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+const DOWNLOADS: Array<{ id: string; filename: string; type: string; build: (bundle: ExportBundle) => string }> = [
+    { id: 'export-yearly-csv', filename: 'rent-vs-buy-yearly.csv', type: 'text/csv', build: b => yearlyToCSV(b.yearly) },
+    { id: 'export-schedule-csv', filename: 'rent-vs-buy-amortization.csv', type: 'text/csv', build: b => scheduleToCSV(b.schedule) },
+    { id: 'export-inputs-csv', filename: 'rent-vs-buy-inputs.csv', type: 'text/csv', build: b => inputsToCSV(b.inputs) },
+    { id: 'export-json', filename: 'rent-vs-buy.json', type: 'application/json', build: toJSON },
+];
+
+// Wire up the export buttons; invalid inputs are not exported
+export function setupExportButtons(elements: InputElements): void {
+    for (const download of DOWNLOADS) {
+        const button = document.getElementById(download.id) as HTMLButtonElement;
+        button.addEventListener('click', () => {
+            const inputs = readInputs(elements);
+            if (validateInputs(inputs).some(issue => issue.severity === 'error')) {
+                return;
+            }
+            const bundle = buildExport(inputs, readYears(elements));
+            saveFile(download.filename, download.build(bundle), download.type);
+        });
+    }
+}
+
+// Load a scenario file into the form, listing any problems instead of applying it
+export function setupImportButton(elements: InputElements, onChange: () => void): void {
+    const fileInput = document.getElementById('import-file') as HTMLInputElement;
+    const status = document.getElementById('import-status') as HTMLDivElement;
+
+    const showStatus = (kind: 'error' | 'warning' | 'success', title: string, details: string[]) => {
+        const list = document.createElement('ul');
+        list.append(...details.map(detail => {
+            const item = document.createElement('li');
+            item.textContent = detail;
+            return item;
+        }));
+        status.replaceChildren(title, list);
+        status.className = `import-status ${kind}`;
+    };
+
+    fileInput.addEventListener('change', async () => {
+        const file = fileInput.files?.[0];
+        fileInput.value = ''; // Allow re-importing the same file after fixing it
+        if (!file) return;
+
+        // A failed read is reported like a file that does not pass validation
+        let result: ImportResult;
+        try {
+            result = parseScenarioFile(await file.text());
+        } catch (error) {
+            showStatus('error', `Could not import ${file.name}:`, [`The file could not be read: ${(error as Error).message}`]);
+            return;
+        }
+        if (!result.ok) {
+            showStatus('error', `Could not import ${file.name}:`, result.errors);
+            return;
+        }
+
+        applyScenarioFile(elements, result.scenario);
+        const label = result.scenario.name ?? file.name;
+        if (result.warnings.length > 0) {
+            showStatus('warning', `Imported ${label} with warnings:`, result.warnings);
+        } else {
+            showStatus('success', `Imported ${label}`, []);
+        }
+        onChange();
+    });
+}
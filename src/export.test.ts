@@ -0,0 +1,71 @@
+import { CalculatorInputs } from './calculator';
+import {
+    buildExport,
+    EXPORT_SCHEMA_VERSION,
+    inputsToCSV,
+    scheduleToCSV,
+    toCSV,
+    toJSON,
+    yearlyToCSV,
+} from './export';
+import { CLI_DEFAULT_INPUTS } from './commandline';
+
+describe('export', () => {
+    const inputs: CalculatorInputs = {
+        ...CLI_DEFAULT_INPUTS,
+        purchasePrice: 1000000,
+        loan: {
+            type: 'arm',
+            termYears: 30,
+            arm: {
+                initialYears: 7,
+                adjustmentMonths: 12,
+                margin: 0.0275,
+                indexPath: [0.04, 0.045],
+                periodicCap: 0.02,
+                lifetimeCap: 0.05,
+            },
+        },
+    };
+
+    it('bundles inputs, yearly results and the monthly schedule with a schema version', () => {
+        const bundle = buildExport(inputs, 10);
+        const parsed = JSON.parse(toJSON(bundle));
+
+        expect(parsed.schemaVersion).toBe(EXPORT_SCHEMA_VERSION);
+        expect(parsed.years).toBe(10);
+        expect(parsed.inputs).toEqual(inputs);
+        expect(parsed.yearly).toHaveLength(11);
+        expect(parsed.schedule).toHaveLength(360);
+    });
+
+    it('writes one CSV row per year with a header', () => {
+        const bundle = buildExport(inputs, 5);
+        const lines = yearlyToCSV(bundle.yearly).trimEnd().split('\r\n');
+        const header = lines[0].split(',');
+
+        expect(lines).toHaveLength(7);
+        expect(header.slice(0, 3)).toEqual(['year', 'buyNetWorth', 'rentNetWorth']);
+        const row = lines[6].split(',');
+        expect(Number(row[header.indexOf('buyNetWorth')])).toBeCloseTo(bundle.yearly[5].buyNetWorth, 6);
+    });
+
+    it('includes the loan year in the schedule CSV', () => {
+        const bundle = buildExport(inputs, 5);
+        const lines = scheduleToCSV(bundle.schedule).trimEnd().split('\r\n');
+
+        expect(lines[0]).toBe('year,month,rate,payment,interest,principal,subsidy,balance');
+        expect(lines[13].startsWith('2,13,')).toBe(true);
+    });
+
+    it('flattens nested inputs into dotted field names', () => {
+        const csv = inputsToCSV(inputs);
+        expect(csv).toContain('loan.arm.indexPath,0.04;0.045\r\n');
+        expect(csv).toContain('purchasePrice,1000000\r\n');
+    });
+
+    it('quotes cells with commas and quotes and fills missing columns', () => {
+        const csv = toCSV([{ a: 'x, "y"' }, { a: 1, b: true }]);
+        expect(csv).toBe('a,b\r\n"x, ""y""",\r\n1,true\r\n');
+    });
+});
@@ -0,0 +1,99 @@
+// Export yearly results, the monthly loan schedule and the inputs as CSV and JSON
+
+import { AmortizationRow } from './amortization.js';
+import { calculateLoanSchedule, calculateNetWorth, CalculatorInputs, YearlyData } from './calculator.js';
+
+// Bump when the JSON layout changes so imports can migrate older files
+export const EXPORT_SCHEMA_VERSION = 1;
+
+export interface ExportBundle {
+    schemaVersion: number;
+    exportedAt: string; // ISO timestamp
+    years: number; // Time horizon
+    inputs: CalculatorInputs;
+    yearly: YearlyData[];
+    schedule: AmortizationRow[];
+}
+
+type CellValue = string | number | boolean | null;
+
+// Everything needed to reproduce and audit one calculation
+export function buildExport(inputs: CalculatorInputs, years: number): ExportBundle {
+    return {
+        schemaVersion: EXPORT_SCHEMA_VERSION,
+        exportedAt: new Date().toISOString(),
+        years,
+        inputs,
+        yearly: calculateNetWorth(inputs, years),
+        schedule: calculateLoanSchedule(inputs).rows,
+    };
+}
+
+export function toJSON(bundle: ExportBundle): string {
+    return JSON.stringify(bundle, null, 2);
+}
+
+// Flatten nested objects into dotted keys; arrays of numbers join with semicolons
+// (e.g. loan.arm.indexPath = "0.04;0.045"), arrays of objects are numbered
+function flatten(value: unknown, prefix: string, out: Record<string, CellValue>): void {
+    if (value === null || value === undefined) {
+        if (prefix) out[prefix] = null;
+    } else if (Array.isArray(value)) {
+        if (value.every(item => typeof item !== 'object' || item === null)) {
+            out[prefix] = value.join(';');
+        } else {
+            value.forEach((item, index) => flatten(item, `${prefix}.${index + 1}`, out));
+        }
+    } else if (typeof value === 'object') {
+        for (const [key, child] of Object.entries(value)) {
+            flatten(child, prefix ? `${prefix}.${key}` : key, out);
+        }
+    } else {
+        out[prefix] = value as CellValue;
+    }
+}
+
+// Quote a cell when it contains a delimiter, quote or line break
+function csvCell(value: CellValue | undefined): string {
+    if (value === null || value === undefined) return '';
+    const text = String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// Rows of flat records to CSV; columns are the union of keys in first-seen order
+export function toCSV(records: object[]): string {
+    const rows = records.map(record => {
+        const flat: Record<string, CellValue> = {};
+        flatten(record, '', flat);
+        return flat;
+    });
+
+    const columns: string[] = [];
+    for (const row of rows) {
+        for (const key of Object.keys(row)) {
+            if (!columns.includes(key)) columns.push(key);
+        }
+    }
+
+    const lines = [
+        columns.map(csvCell).join(','),
+        ...rows.map(row => columns.map(column => csvCell(row[column])).join(',')),
+    ];
+    return lines.join('\r\n') + '\r\n';
+}
+
+export function yearlyToCSV(data: YearlyData[]): string {
+    return toCSV(data);
+}
+
+// Monthly payments with the loan year alongside the month
+export function scheduleToCSV(schedule: AmortizationRow[]): string {
+    return toCSV(schedule.map(row => ({ year: Math.ceil(row.month / 12), ...row })));
+}
+
+// Inputs as field,value pairs (nested loan settings use dotted names)
+export function inputsToCSV(inputs: CalculatorInputs): string {
+    const flat: Record<string, CellValue> = {};
+    flatten(inputs, '', flat);
+    return toCSV(Object.entries(flat).map(([field, value]) => ({ field, value })));
+}
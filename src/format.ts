@@ -0,0 +1,48 @@
+// Currency and number formatting for display
+
+// Whether amounts are future (nominal) dollars or deflated to today's dollars
+export type DollarMode = 'nominal' | 'real';
+
+export const DOLLAR_MODE_LABELS: Record<DollarMode, string> = {
+    nominal: 'nominal $',
+    real: "today's $",
+};
+
+export function dollarMode(realDollars: boolean | undefined): DollarMode {
+    return realDollars ? 'real' : 'nominal';
+}
+
+// Format number as currency for display; passing a mode labels which dollars it is in
+export function formatCurrency(value: number, mode?: DollarMode): string {
+    const amount = new Intl.NumberFormat('en-US', {
+        style: 'currency',
+        currency: 'USD',
+        minimumFractionDigits: 0,
+        maximumFractionDigits: 0,
+    }).format(value);
+    return mode ? `${amount} (${DOLLAR_MODE_LABELS[mode]})` : amount;
+}
+
+// Chart axis tick callback; the last (outermost) tick names the dollar mode for the whole axis
+export function currencyAxisTicks(mode: DollarMode) {
+    return (value: number, index: number, ticks: unknown[]): string =>
+        index === ticks.length - 1 ? formatCurrency(value, mode) : formatCurrency(value);
+}
+
+// Format large amounts compactly for summaries (e.g. $1.38M)
+export function formatCompactCurrency(value: number): string {
+    return new Intl.NumberFormat('en-US', {
+        style: 'currency',
+        currency: 'USD',
+        notation: 'compact',
+        maximumFractionDigits: 2,
+    }).format(value);
+}
+
+// Format number with commas for input display
+export function formatNumberWithCommas(value: number): string {
+    return new Intl.NumberFormat('en-US', {
+        minimumFractionDigits: 0,
+        maximumFractionDigits: 0,
+    }).format(value);
+}
@@ -1,14 +1,78 @@
-// Input handling and validation
+// Form input handling: reading, writing and showing validation messages
 
-import { CalculatorInputs, DEFAULT_INPUTS } from './calculator.js';
+import {
+    Buydown,
+    DEFAULT_ARM,
+    DEFAULT_LOAN,
+    LoanStructure,
+    LoanType,
+    RefinanceEvent,
+} from './amortization.js';
+import { CalculatorInputs, DEFAULT_INPUTS, SurplusInvestor } from './calculator.js';
+import { LocationId, LOCATION_PRESETS } from './locations.js';
+import { AssumptionPreset } from './presets.js';
+import { FilingStatus } from './tax.js';
+import { DEFAULT_TRANSACTION_COSTS, TransactionCosts, TransferTaxCity } from './transactions.js';
+import { formatNumberWithCommas } from './format.js';
+import { ValidationIssue } from './validation.js';
 
 export interface InputElements {
+    location: HTMLSelectElement; // Preset that fills tax and market fields; blank for custom
     purchasePrice: HTMLInputElement;
     downPaymentPercent: HTMLInputElement;
     mortgageRate: HTMLInputElement;
     monthlyRent: HTMLInputElement;
     homeAppreciationRate: HTMLInputElement;
     rentGrowthRate: HTMLInputElement;
+    // Advanced panel
+    investmentReturnRate: HTMLInputElement;
+    dividendYield: HTMLInputElement;
+    inflationRate: HTMLInputElement;
+    propertyTaxRate: HTMLInputElement;
+    parcelTaxAnnual: HTMLInputElement;
+    priorAssessedValue: HTMLInputElement;
+    transferredBaseValue: HTMLInputElement;
+    soldHomePrice: HTMLInputElement;
+    hoaMonthly: HTMLInputElement;
+    maintenanceRate: HTMLInputElement;
+    closingCostRate: HTMLInputElement;
+    sellingCostRate: HTMLInputElement;
+    insuranceAnnual: HTMLInputElement;
+    investDifference: HTMLSelectElement;
+    filingStatus: HTMLSelectElement;
+    federalTaxRate: HTMLInputElement;
+    stateTaxRate: HTMLInputElement;
+    otherSaltTaxes: HTMLInputElement;
+    otherItemizedDeductions: HTMLInputElement;
+    federalCapitalGainsRate: HTMLInputElement;
+    pmiRate: HTMLInputElement;
+    pmiCancelAtAppraisal: HTMLInputElement;
+    // Loan structure (read into inputs.loan)
+    loanTermYears: HTMLSelectElement;
+    loanType: HTMLSelectElement;
+    interestOnlyYears: HTMLInputElement;
+    buydown: HTMLSelectElement;
+    armInitialYears: HTMLSelectElement;
+    armAdjustmentMonths: HTMLSelectElement;
+    armMargin: HTMLInputElement;
+    armIndexPath: HTMLInputElement;
+    armPeriodicCap: HTMLInputElement;
+    armLifetimeCap: HTMLInputElement;
+    refinances: HTMLElement; // List of refinance rows
+    // Itemized transaction costs (read into inputs.transactionCosts when itemizeCosts is checked)
+    itemizeCosts: HTMLInputElement;
+    transferTaxCity: HTMLSelectElement;
+    buyerTransferTaxShare: HTMLInputElement;
+    listingCommissionRate: HTMLInputElement;
+    buyerAgentRate: HTMLInputElement;
+    titleEscrowRate: HTMLInputElement;
+    loanPoints: HTMLInputElement;
+    lenderFees: HTMLInputElement;
+    // Chart options
+    applyProp13: HTMLInputElement;
+    afterTaxNetWorth: HTMLInputElement;
+    realDollars: HTMLInputElement;
+    showAllPresets: HTMLInputElement; // Display only, not an input to the calculation
     yearsSlider: HTMLInputElement;
     yearsValue: HTMLElement;
 }
@@ -16,23 +80,75 @@ export interface InputElements {
 // Get all input elements from the DOM
 export function getInputElements(): InputElements {
     return {
+        location: document.getElementById('location') as HTMLSelectElement,
         purchasePrice: document.getElementById('purchase-price') as HTMLInputElement,
         downPaymentPercent: document.getElementById('down-payment') as HTMLInputElement,
         mortgageRate: document.getElementById('mortgage-rate') as HTMLInputElement,
         monthlyRent: document.getElementById('monthly-rent') as HTMLInputElement,
         homeAppreciationRate: document.getElementById('home-appreciation') as HTMLInputElement,
         rentGrowthRate: document.getElementById('rent-growth') as HTMLInputElement,
+        investmentReturnRate: document.getElementById('investment-return') as HTMLInputElement,
+        dividendYield: document.getElementById('dividend-yield') as HTMLInputElement,
+        inflationRate: document.getElementById('inflation-rate') as HTMLInputElement,
+        propertyTaxRate: document.getElementById('property-tax-rate') as HTMLInputElement,
+        parcelTaxAnnual: document.getElementById('parcel-tax') as HTMLInputElement,
+        priorAssessedValue: document.getElementById('prior-assessed-value') as HTMLInputElement,
+        transferredBaseValue: document.getElementById('transferred-base-value') as HTMLInputElement,
+        soldHomePrice: document.getElementById('sold-home-price') as HTMLInputElement,
+        hoaMonthly: document.getElementById('hoa-monthly') as HTMLInputElement,
+        maintenanceRate: document.getElementById('maintenance-rate') as HTMLInputElement,
+        closingCostRate: document.getElementById('closing-cost-rate') as HTMLInputElement,
+        sellingCostRate: document.getElementById('selling-cost-rate') as HTMLInputElement,
+        insuranceAnnual: document.getElementById('insurance-annual') as HTMLInputElement,
+        investDifference: document.getElementById('invest-difference') as HTMLSelectElement,
+        filingStatus: document.getElementById('filing-status') as HTMLSelectElement,
+        federalTaxRate: document.getElementById('federal-tax-rate') as HTMLInputElement,
+        stateTaxRate: document.getElementById('state-tax-rate') as HTMLInputElement,
+        otherSaltTaxes: document.getElementById('other-salt-taxes') as HTMLInputElement,
+        otherItemizedDeductions: document.getElementById('other-itemized') as HTMLInputElement,
+        federalCapitalGainsRate: document.getElementById('capital-gains-rate') as HTMLInputElement,
+        pmiRate: document.getElementById('pmi-rate') as HTMLInputElement,
+        pmiCancelAtAppraisal: document.getElementById('pmi-appraisal') as HTMLInputElement,
+        loanTermYears: document.getElementById('loan-term') as HTMLSelectElement,
+        loanType: document.getElementById('loan-type') as HTMLSelectElement,
+        interestOnlyYears: document.getElementById('interest-only-years') as HTMLInputElement,
+        buydown: document.getElementById('buydown') as HTMLSelectElement,
+        armInitialYears: document.getElementById('arm-initial-years') as HTMLSelectElement,
+        armAdjustmentMonths: document.getElementById('arm-adjustment') as HTMLSelectElement,
+        armMargin: document.getElementById('arm-margin') as HTMLInputElement,
+        armIndexPath: document.getElementById('arm-index') as HTMLInputElement,
+        armPeriodicCap: document.getElementById('arm-periodic-cap') as HTMLInputElement,
+        armLifetimeCap: document.getElementById('arm-lifetime-cap') as HTMLInputElement,
+        refinances: document.getElementById('refinance-list') as HTMLElement,
+        itemizeCosts: document.getElementById('itemize-costs') as HTMLInputElement,
+        transferTaxCity: document.getElementById('transfer-tax-city') as HTMLSelectElement,
+        buyerTransferTaxShare: document.getElementById('buyer-transfer-share') as HTMLInputElement,
+        listingCommissionRate: document.getElementById('listing-commission') as HTMLInputElement,
+        buyerAgentRate: document.getElementById('buyer-agent-fee') as HTMLInputElement,
+        titleEscrowRate: document.getElementById('title-escrow') as HTMLInputElement,
+        loanPoints: document.getElementById('loan-points') as HTMLInputElement,
+        lenderFees: document.getElementById('lender-fees') as HTMLInputElement,
+        applyProp13: document.getElementById('apply-prop13') as HTMLInputElement,
+        afterTaxNetWorth: document.getElementById('after-tax-net-worth') as HTMLInputElement,
+        realDollars: document.getElementById('real-dollars') as HTMLInputElement,
+        showAllPresets: document.getElementById('show-all-presets') as HTMLInputElement,
         yearsSlider: document.getElementById('years-slider') as HTMLInputElement,
         yearsValue: document.getElementById('years-value') as HTMLElement,
     };
 }
 
 // Parse a numeric input, handling commas and currency symbols
-function parseNumericInput(value: string): number {
+// Malformed text becomes NaN so validation can flag it; blank uses blankValue
+function parseNumericInput(value: string, blankValue: number = NaN): number {
     // Remove currency symbols, commas, and spaces
     const cleaned = value.replace(/[$,\s]/g, '');
-    const num = parseFloat(cleaned);
-    return isNaN(num) ? 0 : num;
+    if (cleaned === '') return blankValue;
+    return Number(cleaned);
+}
+
+// Same, but a blank field means the input is not modeled
+function parseOptionalInput(value: string): number | undefined {
+    return value.trim() === '' ? undefined : parseNumericInput(value);
 }
 
 // Read current values from input elements
@@ -44,69 +160,287 @@ export function readInputs(elements: InputElements): CalculatorInputs {
         monthlyRent: parseNumericInput(elements.monthlyRent.value),
         homeAppreciationRate: parseNumericInput(elements.homeAppreciationRate.value) / 100,
         rentGrowthRate: parseNumericInput(elements.rentGrowthRate.value) / 100,
-        // Defaults from calculator.ts
-        investmentReturnRate: DEFAULT_INPUTS.investmentReturnRate!,
-        propertyTaxRate: DEFAULT_INPUTS.propertyTaxRate!,
-        hoaMonthly: DEFAULT_INPUTS.hoaMonthly!,
-        maintenanceRate: DEFAULT_INPUTS.maintenanceRate!,
-        closingCostRate: DEFAULT_INPUTS.closingCostRate!,
-        sellingCostRate: DEFAULT_INPUTS.sellingCostRate!,
-        insuranceAnnual: DEFAULT_INPUTS.insuranceAnnual!,
+        investmentReturnRate: parseNumericInput(elements.investmentReturnRate.value) / 100,
+        dividendYield: parseNumericInput(elements.dividendYield.value, 0) / 100,
+        inflationRate: parseNumericInput(elements.inflationRate.value) / 100,
+        propertyTaxRate: parseNumericInput(elements.propertyTaxRate.value) / 100,
+        parcelTaxAnnual: parseNumericInput(elements.parcelTaxAnnual.value, 0),
+        priorAssessedValue: parseOptionalInput(elements.priorAssessedValue.value),
+        transferredBaseValue: parseOptionalInput(elements.transferredBaseValue.value),
+        soldHomePrice: parseOptionalInput(elements.soldHomePrice.value),
+        hoaMonthly: parseNumericInput(elements.hoaMonthly.value, 0),
+        maintenanceRate: parseNumericInput(elements.maintenanceRate.value) / 100,
+        closingCostRate: parseNumericInput(elements.closingCostRate.value) / 100,
+        sellingCostRate: parseNumericInput(elements.sellingCostRate.value) / 100,
+        insuranceAnnual: parseNumericInput(elements.insuranceAnnual.value, 0), // Blank = auto estimate
+        investDifference: elements.investDifference.value as SurplusInvestor,
+        filingStatus: elements.filingStatus.value as FilingStatus,
+        federalTaxRate: parseNumericInput(elements.federalTaxRate.value) / 100,
+        stateTaxRate: parseNumericInput(elements.stateTaxRate.value) / 100,
+        otherSaltTaxes: parseNumericInput(elements.otherSaltTaxes.value, 0),
+        otherItemizedDeductions: parseNumericInput(elements.otherItemizedDeductions.value, 0),
+        federalCapitalGainsRate: parseNumericInput(elements.federalCapitalGainsRate.value) / 100,
+        pmiRate: parseNumericInput(elements.pmiRate.value) / 100,
+        pmiCancelAtAppraisal: elements.pmiCancelAtAppraisal.checked,
+        applyProp13: elements.applyProp13.checked,
+        afterTaxNetWorth: elements.afterTaxNetWorth.checked,
+        realDollars: elements.realDollars.checked,
+        loan: readLoan(elements),
+        refinances: readRefinances(elements.refinances),
+        transactionCosts: elements.itemizeCosts.checked ? readTransactionCosts(elements) : undefined,
+        location: (elements.location.value || undefined) as LocationId | undefined,
     };
 }
 
-// Get the years value from the slider
-export function readYears(elements: InputElements): number {
-    return parseInt(elements.yearsSlider.value, 10);
+// Parse a list of percentages such as "4, 4.5, 5" into decimal rates
+export function parseRateList(value: string): number[] {
+    return value
+        .split(/[,\s]+/)
+        .filter(part => part !== '')
+        .map(part => Number(part.replace('%', '')) / 100);
 }
 
-// Format number as currency for display
-export function formatCurrency(value: number): string {
-    return new Intl.NumberFormat('en-US', {
-        style: 'currency',
-        currency: 'USD',
-        minimumFractionDigits: 0,
-        maximumFractionDigits: 0,
-    }).format(value);
+function readLoan(elements: InputElements): LoanStructure {
+    const loan: LoanStructure = {
+        type: elements.loanType.value as LoanType,
+        termYears: Number(elements.loanTermYears.value),
+        interestOnlyYears: parseNumericInput(elements.interestOnlyYears.value, 0),
+        buydown: elements.buydown.value as Buydown,
+    };
+    if (loan.type === 'arm') {
+        loan.arm = {
+            initialYears: Number(elements.armInitialYears.value),
+            adjustmentMonths: Number(elements.armAdjustmentMonths.value),
+            margin: parseNumericInput(elements.armMargin.value) / 100,
+            indexPath: parseRateList(elements.armIndexPath.value),
+            periodicCap: parseNumericInput(elements.armPeriodicCap.value) / 100,
+            lifetimeCap: parseNumericInput(elements.armLifetimeCap.value) / 100,
+        };
+    }
+    return loan;
 }
 
-// Format number with commas for input display
-export function formatNumberWithCommas(value: number): string {
-    return new Intl.NumberFormat('en-US', {
-        minimumFractionDigits: 0,
-        maximumFractionDigits: 0,
-    }).format(value);
+function readTransactionCosts(elements: InputElements): TransactionCosts {
+    return {
+        city: elements.transferTaxCity.value as TransferTaxCity,
+        buyerTransferTaxShare: parseNumericInput(elements.buyerTransferTaxShare.value) / 100,
+        listingCommissionRate: parseNumericInput(elements.listingCommissionRate.value) / 100,
+        buyerAgentRate: parseNumericInput(elements.buyerAgentRate.value, 0) / 100,
+        titleEscrowRate: parseNumericInput(elements.titleEscrowRate.value) / 100,
+        loanPoints: parseNumericInput(elements.loanPoints.value, 0) / 100,
+        lenderFees: parseNumericInput(elements.lenderFees.value, 0),
+    };
 }
 
-// Validate inputs and return any error messages
-export function validateInputs(inputs: CalculatorInputs): string[] {
-    const errors: string[] = [];
+// Write calculator inputs back to the form (e.g. when loading a saved scenario)
+export function writeInputs(elements: InputElements, inputs: CalculatorInputs): void {
+    const withDefaults = { ...DEFAULT_INPUTS, ...inputs };
 
-    if (inputs.purchasePrice <= 0) {
-        errors.push('Purchase price must be greater than 0');
-    }
-    if (inputs.downPaymentPercent < 0 || inputs.downPaymentPercent > 100) {
-        errors.push('Down payment must be between 0% and 100%');
-    }
-    if (inputs.mortgageRate < 0 || inputs.mortgageRate > 0.25) {
-        errors.push('Mortgage rate seems unrealistic (should be between 0% and 25%)');
-    }
-    if (inputs.monthlyRent < 0) {
-        errors.push('Monthly rent cannot be negative');
-    }
-    if (inputs.homeAppreciationRate < -0.2 || inputs.homeAppreciationRate > 0.3) {
-        errors.push('Home appreciation rate seems unrealistic (-20% to 30%)');
-    }
-    if (inputs.rentGrowthRate < -0.1 || inputs.rentGrowthRate > 0.2) {
-        errors.push('Rent growth rate seems unrealistic (-10% to 20%)');
-    }
+    elements.purchasePrice.value = formatNumberWithCommas(inputs.purchasePrice);
+    elements.downPaymentPercent.value = inputs.downPaymentPercent.toString();
+    elements.mortgageRate.value = toPercent(inputs.mortgageRate);
+    elements.monthlyRent.value = formatNumberWithCommas(inputs.monthlyRent);
+    elements.homeAppreciationRate.value = toPercent(inputs.homeAppreciationRate);
+    elements.rentGrowthRate.value = toPercent(inputs.rentGrowthRate);
+    elements.investmentReturnRate.value = toPercent(inputs.investmentReturnRate);
+    elements.dividendYield.value = toPercent(withDefaults.dividendYield!);
+    elements.inflationRate.value = toPercent(withDefaults.inflationRate!);
+    elements.propertyTaxRate.value = toPercent(inputs.propertyTaxRate);
+    elements.parcelTaxAnnual.value = formatNumberWithCommas(withDefaults.parcelTaxAnnual!);
+    elements.priorAssessedValue.value = formatOptional(inputs.priorAssessedValue);
+    elements.transferredBaseValue.value = formatOptional(inputs.transferredBaseValue);
+    elements.soldHomePrice.value = formatOptional(inputs.soldHomePrice);
+    elements.hoaMonthly.value = formatNumberWithCommas(inputs.hoaMonthly);
+    elements.maintenanceRate.value = toPercent(inputs.maintenanceRate);
+    elements.closingCostRate.value = toPercent(inputs.closingCostRate);
+    elements.sellingCostRate.value = toPercent(inputs.sellingCostRate);
+    elements.insuranceAnnual.value = inputs.insuranceAnnual > 0
+        ? formatNumberWithCommas(inputs.insuranceAnnual)
+        : '';
+    elements.investDifference.value = withDefaults.investDifference!;
+    elements.filingStatus.value = withDefaults.filingStatus!;
+    elements.federalTaxRate.value = toPercent(withDefaults.federalTaxRate!);
+    elements.stateTaxRate.value = toPercent(withDefaults.stateTaxRate!);
+    elements.otherSaltTaxes.value = formatNumberWithCommas(withDefaults.otherSaltTaxes!);
+    elements.otherItemizedDeductions.value = formatNumberWithCommas(withDefaults.otherItemizedDeductions!);
+    elements.federalCapitalGainsRate.value = toPercent(withDefaults.federalCapitalGainsRate!);
+    elements.pmiRate.value = toPercent(withDefaults.pmiRate!);
+    elements.pmiCancelAtAppraisal.checked = withDefaults.pmiCancelAtAppraisal!;
+    elements.applyProp13.checked = withDefaults.applyProp13!;
+    elements.afterTaxNetWorth.checked = withDefaults.afterTaxNetWorth!;
+    elements.realDollars.checked = withDefaults.realDollars!;
+    elements.location.value = inputs.location ?? '';
+
+    const loan = withDefaults.loan ?? DEFAULT_LOAN;
+    const arm = loan.arm ?? DEFAULT_ARM;
+    elements.loanTermYears.value = loan.termYears.toString();
+    elements.loanType.value = loan.type;
+    elements.interestOnlyYears.value = (loan.interestOnlyYears ?? 0).toString();
+    elements.buydown.value = loan.buydown ?? 'none';
+    elements.armInitialYears.value = arm.initialYears.toString();
+    elements.armAdjustmentMonths.value = arm.adjustmentMonths.toString();
+    elements.armMargin.value = toPercent(arm.margin);
+    elements.armIndexPath.value = arm.indexPath.map(toPercent).join(', ');
+    elements.armPeriodicCap.value = toPercent(arm.periodicCap);
+    elements.armLifetimeCap.value = toPercent(arm.lifetimeCap);
+    setRefinanceRows(elements.refinances, inputs.refinances ?? []);
+
+    const costs = inputs.transactionCosts ?? DEFAULT_TRANSACTION_COSTS;
+    elements.itemizeCosts.checked = inputs.transactionCosts !== undefined;
+    elements.transferTaxCity.value = costs.city;
+    elements.buyerTransferTaxShare.value = toPercent(costs.buyerTransferTaxShare);
+    elements.listingCommissionRate.value = toPercent(costs.listingCommissionRate);
+    elements.buyerAgentRate.value = toPercent(costs.buyerAgentRate);
+    elements.titleEscrowRate.value = toPercent(costs.titleEscrowRate);
+    elements.loanPoints.value = toPercent(costs.loanPoints);
+    elements.lenderFees.value = formatNumberWithCommas(costs.lenderFees);
+}
+
+// Fill the form's fields from a location preset (see applyLocationPreset). The transfer tax
+// city is set even when costs are not itemized, so it is ready if they are.
+export function applyLocation(elements: InputElements, location: LocationId): void {
+    const preset = LOCATION_PRESETS[location];
+    elements.propertyTaxRate.value = toPercent(preset.propertyTaxRate);
+    elements.parcelTaxAnnual.value = formatNumberWithCommas(preset.parcelTaxAnnual);
+    elements.homeAppreciationRate.value = toPercent(preset.homeAppreciationRate);
+    elements.rentGrowthRate.value = toPercent(preset.rentGrowthRate);
+    elements.transferTaxCity.value = preset.transferTaxCity;
+}
+
+// Fill the form's growth, return and maintenance fields from an assumption preset
+export function applyAssumptions(elements: InputElements, preset: AssumptionPreset): void {
+    elements.homeAppreciationRate.value = toPercent(preset.homeAppreciationRate);
+    elements.rentGrowthRate.value = toPercent(preset.rentGrowthRate);
+    elements.investmentReturnRate.value = toPercent(preset.investmentReturnRate);
+    elements.maintenanceRate.value = toPercent(preset.maintenanceRate);
+}
+
+// Starting values for a newly added refinance row
+const NEW_REFINANCE: RefinanceEvent = {
+    year: 3,
+    rate: 0.055,
+    termYears: 30,
+    closingCost: 5000,
+    cashOut: 0,
+};
+
+type RefinanceInput = keyof RefinanceEvent;
+
+function refinanceField(label: string, field: RefinanceInput, value: string): HTMLLabelElement {
+    const wrapper = document.createElement('label');
+    const input = document.createElement('input');
+    input.type = 'text';
+    input.inputMode = 'decimal';
+    input.dataset.field = field;
+    input.value = value;
+    wrapper.append(label, input);
+    return wrapper;
+}
 
-    return errors;
+function addRefinanceRow(list: HTMLElement, event: RefinanceEvent): void {
+    const row = document.createElement('div');
+    row.className = 'refinance-row';
+
+    const remove = document.createElement('button');
+    remove.type = 'button';
+    remove.className = 'link-button';
+    remove.textContent = 'Remove';
+    remove.addEventListener('click', () => {
+        row.remove();
+        list.dispatchEvent(new Event('input', { bubbles: true }));
+    });
+
+    row.append(
+        refinanceField('Year', 'year', event.year.toString()),
+        refinanceField('Rate (%)', 'rate', toPercent(event.rate)),
+        refinanceField('Term (years)', 'termYears', event.termYears.toString()),
+        refinanceField('Closing cost ($)', 'closingCost', formatNumberWithCommas(event.closingCost)),
+        refinanceField('Cash-out ($)', 'cashOut', formatNumberWithCommas(event.cashOut ?? 0)),
+        remove
+    );
+    list.append(row);
+}
+
+// Replace the refinance rows (e.g. when loading a scenario or a link)
+export function setRefinanceRows(list: HTMLElement, events: RefinanceEvent[]): void {
+    list.replaceChildren();
+    events.forEach(event => addRefinanceRow(list, event));
+}
+
+export function readRefinances(list: HTMLElement): RefinanceEvent[] {
+    return Array.from(list.querySelectorAll<HTMLElement>('.refinance-row')).map(row => {
+        const value = (field: RefinanceInput) =>
+            row.querySelector<HTMLInputElement>(`[data-field="${field}"]`)!.value;
+        return {
+            year: parseNumericInput(value('year')),
+            rate: parseNumericInput(value('rate')) / 100,
+            termYears: parseNumericInput(value('termYears')),
+            closingCost: parseNumericInput(value('closingCost'), 0),
+            cashOut: parseNumericInput(value('cashOut'), 0),
+        };
+    });
+}
+
+// Wire up the "Add refinance" button; changes bubble as input events from the list
+export function setupRefinanceList(elements: InputElements): void {
+    const addButton = document.getElementById('add-refinance') as HTMLButtonElement;
+    addButton.addEventListener('click', () => {
+        addRefinanceRow(elements.refinances, NEW_REFINANCE);
+        elements.refinances.dispatchEvent(new Event('input', { bubbles: true }));
+    });
+}
+
+function formatOptional(value: number | undefined): string {
+    return value === undefined ? '' : formatNumberWithCommas(value);
+}
+
+// Decimal rate to a percent string without floating point noise (0.065 → "6.5")
+function toPercent(rate: number): string {
+    return parseFloat((rate * 100).toFixed(6)).toString();
+}
+
+// Get the years value from the slider
+export function readYears(elements: InputElements): number {
+    return parseFloat(elements.yearsSlider.value);
+}
+
+// Show inline messages under each field and highlight it; clears fields without issues
+export function showValidationMessages(elements: InputElements, issues: ValidationIssue[]): void {
+    for (const [field, element] of Object.entries(elements) as Array<[string, HTMLElement]>) {
+        const group = element.closest('.input-group');
+        if (!group) continue;
+
+        // Several issues can share a field (e.g. refinance rows); show errors first
+        const fieldIssues = issues.filter(i => i.field === field);
+        const issue = fieldIssues.find(i => i.severity === 'error') ?? fieldIssues[0];
+        let message = group.querySelector<HTMLElement>('.field-message');
+        if (!message) {
+            message = document.createElement('div');
+            message.className = 'field-message';
+            group.append(message);
+        }
+
+        group.classList.toggle('has-error', issue?.severity === 'error');
+        group.classList.toggle('has-warning', issue?.severity === 'warning');
+        message.textContent = issue ? issue.message : '';
+    }
 }
 
 // Setup input formatting (add commas as user types for price fields)
 export function setupInputFormatting(elements: InputElements): void {
-    const priceInputs = [elements.purchasePrice, elements.monthlyRent];
+    const priceInputs = [
+        elements.purchasePrice,
+        elements.monthlyRent,
+        elements.parcelTaxAnnual,
+        elements.priorAssessedValue,
+        elements.transferredBaseValue,
+        elements.soldHomePrice,
+        elements.hoaMonthly,
+        elements.insuranceAnnual,
+        elements.otherSaltTaxes,
+        elements.otherItemizedDeductions,
+        elements.lenderFees,
+    ];
 
     priceInputs.forEach((input) => {
         input.addEventListener('blur', () => {
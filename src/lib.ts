@@ -0,0 +1,20 @@
+// Library entry point: the calculation engine without the page, for scripts and Node.
+// Nothing here touches the DOM.
+
+export * from './calculator.js';
+export * from './crossovers.js';
+export * from './amortization.js';
+export * from './tax.js';
+export * from './transactions.js';
+export * from './locations.js';
+export * from './presets.js';
+export * from './portfolio.js';
+export * from './montecarlo.js';
+export * from './sensitivity.js';
+export * from './validation.js';
+export * from './format.js';
+export * from './export.js';
+export * from './scenariofile.js';
+export * from './scenarios.js';
+export * from './urlcodec.js';
+export * from './report.js';
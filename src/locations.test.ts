@@ -0,0 +1,44 @@
+import { calculateNetWorth } from './calculator';
+import { applyLocationPreset, LOCATION_PRESETS } from './locations';
+import { CITY_TRANSFER_TAXES, DEFAULT_TRANSACTION_COSTS } from './transactions';
+import { validateInputs } from './validation';
+import { CLI_DEFAULT_INPUTS } from './commandline';
+
+const inputs = CLI_DEFAULT_INPUTS;
+
+describe('LOCATION_PRESETS', () => {
+    it('passes validation without warnings and names a known transfer tax city', () => {
+        for (const [id, preset] of Object.entries(LOCATION_PRESETS)) {
+            const filled = applyLocationPreset(inputs, id as keyof typeof LOCATION_PRESETS);
+            expect(validateInputs(filled)).toEqual([]);
+            expect(Object.keys(CITY_TRANSFER_TAXES)).toContain(preset.transferTaxCity);
+        }
+    });
+});
+
+describe('applyLocationPreset', () => {
+    it('fills the tax and market fields and records the location', () => {
+        expect(applyLocationPreset(inputs, 'oakland')).toEqual({
+            ...inputs,
+            location: 'oakland',
+            propertyTaxRate: 0.0137,
+            parcelTaxAnnual: 1300,
+            homeAppreciationRate: 0.035,
+            rentGrowthRate: 0.025,
+        });
+    });
+
+    it('sets the transfer tax city only when costs are itemized', () => {
+        const itemized = { ...inputs, transactionCosts: DEFAULT_TRANSACTION_COSTS };
+        expect(applyLocationPreset(itemized, 'san-francisco').transactionCosts?.city).toBe('san-francisco');
+        expect(applyLocationPreset(inputs, 'san-francisco')).not.toHaveProperty('transactionCosts');
+    });
+
+    it('adds parcel taxes to the yearly property tax without deducting them', () => {
+        const taxed = { ...inputs, filingStatus: 'married' as const, federalTaxRate: 0.24, stateTaxRate: 0.093 };
+        const plain = calculateNetWorth({ ...taxed, propertyTaxRate: 0.0137 }, 5);
+        const oakland = calculateNetWorth(applyLocationPreset(taxed, 'oakland'), 5);
+        expect(oakland[3].annualPropertyTax - plain[3].annualPropertyTax).toBeCloseTo(1300, 6);
+        expect(oakland[3].annualTaxSavings).toBeCloseTo(plain[3].annualTaxSavings, 6);
+    });
+});
@@ -0,0 +1,168 @@
+// Bay Area location presets: property tax, parcel taxes, transfer tax and market assumptions
+
+import { CalculatorInputs } from './calculator.js';
+import { TransferTaxCity } from './transactions.js';
+
+export type County = 'san-francisco' | 'san-mateo' | 'santa-clara' | 'alameda' | 'contra-costa';
+
+export const COUNTY_NAMES: Record<County, string> = {
+    'san-francisco': 'San Francisco',
+    'san-mateo': 'San Mateo County',
+    'santa-clara': 'Santa Clara County',
+    'alameda': 'Alameda County',
+    'contra-costa': 'Contra Costa County',
+};
+
+export type LocationId =
+    | 'san-francisco'
+    | 'san-mateo'
+    | 'san-mateo-county'
+    | 'palo-alto'
+    | 'san-jose'
+    | 'santa-clara-county'
+    | 'oakland'
+    | 'berkeley'
+    | 'hayward'
+    | 'alameda-county'
+    | 'richmond'
+    | 'contra-costa-county';
+
+export interface LocationPreset {
+    label: string;
+    county: County;
+    propertyTaxRate: number; // 1% base plus voter-approved bonds for a typical tax-rate area
+    parcelTaxAnnual: number; // Flat parcel taxes and assessments on a typical single-family home
+    transferTaxCity: TransferTaxCity;
+    homeAppreciationRate: number; // Suggested long-run rate, from the area's history
+    rentGrowthRate: number; // Suggested long-run rate, from the area's history
+}
+
+// Typical values for the 2024-25 tax roll; a property's own tax bill can differ by tax-rate area.
+// Counties' "other" entries cover cities without their own transfer tax.
+export const LOCATION_PRESETS: Record<LocationId, LocationPreset> = {
+    'san-francisco': {
+        label: 'San Francisco',
+        county: 'san-francisco',
+        propertyTaxRate: 0.0118,
+        parcelTaxAnnual: 360,
+        transferTaxCity: 'san-francisco',
+        homeAppreciationRate: 0.035,
+        rentGrowthRate: 0.025,
+    },
+    'san-mateo': {
+        label: 'San Mateo',
+        county: 'san-mateo',
+        propertyTaxRate: 0.0112,
+        parcelTaxAnnual: 450,
+        transferTaxCity: 'san-mateo',
+        homeAppreciationRate: 0.045,
+        rentGrowthRate: 0.03,
+    },
+    'san-mateo-county': {
+        label: 'Other San Mateo County',
+        county: 'san-mateo',
+        propertyTaxRate: 0.011,
+        parcelTaxAnnual: 350,
+        transferTaxCity: 'none',
+        homeAppreciationRate: 0.045,
+        rentGrowthRate: 0.03,
+    },
+    'palo-alto': {
+        label: 'Palo Alto',
+        county: 'santa-clara',
+        propertyTaxRate: 0.0116,
+        parcelTaxAnnual: 950,
+        transferTaxCity: 'palo-alto',
+        homeAppreciationRate: 0.05,
+        rentGrowthRate: 0.03,
+    },
+    'san-jose': {
+        label: 'San Jose',
+        county: 'santa-clara',
+        propertyTaxRate: 0.0125,
+        parcelTaxAnnual: 250,
+        transferTaxCity: 'san-jose',
+        homeAppreciationRate: 0.045,
+        rentGrowthRate: 0.035,
+    },
+    'santa-clara-county': {
+        label: 'Other Santa Clara County',
+        county: 'santa-clara',
+        propertyTaxRate: 0.012,
+        parcelTaxAnnual: 400,
+        transferTaxCity: 'none',
+        homeAppreciationRate: 0.05,
+        rentGrowthRate: 0.035,
+    },
+    'oakland': {
+        label: 'Oakland',
+        county: 'alameda',
+        propertyTaxRate: 0.0137,
+        parcelTaxAnnual: 1300,
+        transferTaxCity: 'oakland',
+        homeAppreciationRate: 0.035,
+        rentGrowthRate: 0.025,
+    },
+    'berkeley': {
+        label: 'Berkeley',
+        county: 'alameda',
+        propertyTaxRate: 0.0121,
+        parcelTaxAnnual: 3000, // Per-square-foot city and school taxes, for about 1,600 sq ft
+        transferTaxCity: 'berkeley',
+        homeAppreciationRate: 0.04,
+        rentGrowthRate: 0.025,
+    },
+    'hayward': {
+        label: 'Hayward',
+        county: 'alameda',
+        propertyTaxRate: 0.0125,
+        parcelTaxAnnual: 500,
+        transferTaxCity: 'hayward',
+        homeAppreciationRate: 0.04,
+        rentGrowthRate: 0.03,
+    },
+    'alameda-county': {
+        label: 'Other Alameda County',
+        county: 'alameda',
+        propertyTaxRate: 0.0122,
+        parcelTaxAnnual: 600,
+        transferTaxCity: 'none',
+        homeAppreciationRate: 0.04,
+        rentGrowthRate: 0.03,
+    },
+    'richmond': {
+        label: 'Richmond',
+        county: 'contra-costa',
+        propertyTaxRate: 0.013,
+        parcelTaxAnnual: 700,
+        transferTaxCity: 'richmond',
+        homeAppreciationRate: 0.035,
+        rentGrowthRate: 0.03,
+    },
+    'contra-costa-county': {
+        label: 'Other Contra Costa County',
+        county: 'contra-costa',
+        propertyTaxRate: 0.0112,
+        parcelTaxAnnual: 300,
+        transferTaxCity: 'none',
+        homeAppreciationRate: 0.035,
+        rentGrowthRate: 0.03,
+    },
+};
+
+// Fill in a location's tax and market fields. Its city transfer tax applies to itemized
+// costs only, since the flat closing and selling rates already include a transfer tax.
+export function applyLocationPreset(inputs: CalculatorInputs, location: LocationId): CalculatorInputs {
+    const preset = LOCATION_PRESETS[location];
+    return {
+        ...inputs,
+        location,
+        propertyTaxRate: preset.propertyTaxRate,
+        parcelTaxAnnual: preset.parcelTaxAnnual,
+        homeAppreciationRate: preset.homeAppreciationRate,
+        rentGrowthRate: preset.rentGrowthRate,
+        ...(inputs.transactionCosts && {
+            transactionCosts: { ...inputs.transactionCosts, city: preset.transferTaxCity },
+        }),
+    };
+}
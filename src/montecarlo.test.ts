@@ -0,0 +1,120 @@
+import { CalculatorInputs, calculateNetWorth } from './calculator';
+import {
+    createRng,
+    defaultSimulationOptions,
+    generateRatePath,
+    runMonteCarlo,
+    runMonteCarloAsync,
+} from './montecarlo';
+import { CLI_DEFAULT_INPUTS } from './commandline';
+
+const inputs = CLI_DEFAULT_INPUTS;
+
+describe('createRng', () => {
+    it('is deterministic for a given seed', () => {
+        const a = createRng(42);
+        const b = createRng(42);
+        for (let i = 0; i < 5; i++) {
+            expect(a()).toBe(b());
+        }
+    });
+
+    it('returns values in [0, 1)', () => {
+        const rng = createRng(7);
+        for (let i = 0; i < 1000; i++) {
+            const value = rng();
+            expect(value).toBeGreaterThanOrEqual(0);
+            expect(value).toBeLessThan(1);
+        }
+    });
+});
+
+describe('runMonteCarlo', () => {
+    it('matches the deterministic model when volatility is zero', () => {
+        const options = defaultSimulationOptions(inputs);
+        options.paths = 10;
+        options.homeAppreciation.volatility = 0;
+        options.rentGrowth.volatility = 0;
+        options.investmentReturn.volatility = 0;
+
+        const result = runMonteCarlo(inputs, 10, options);
+        const data = calculateNetWorth(inputs, 10);
+
+        expect(result.buy.p50[10]).toBeCloseTo(data[10].buyNetWorth, 2);
+        expect(result.rent.p10[10]).toBeCloseTo(data[10].rentNetWorth, 2);
+        expect(result.rent.p90[10]).toBeCloseTo(data[10].rentNetWorth, 2);
+    });
+
+    it('returns ordered percentile bands for every year', () => {
+        const options = { ...defaultSimulationOptions(inputs), paths: 300 };
+        const result = runMonteCarlo(inputs, 15, options);
+
+        expect(result.years.length).toBe(16);
+        for (let year = 1; year <= 15; year++) {
+            expect(result.buy.p10[year]).toBeLessThanOrEqual(result.buy.p50[year]);
+            expect(result.buy.p50[year]).toBeLessThanOrEqual(result.buy.p90[year]);
+            expect(result.rent.p10[year]).toBeLessThan(result.rent.p90[year]);
+            expect(result.buyWinProbability[year]).toBeGreaterThanOrEqual(0);
+            expect(result.buyWinProbability[year]).toBeLessThanOrEqual(1);
+        }
+    });
+
+    it('ends a fractional horizon with a partial year', () => {
+        const options = { ...defaultSimulationOptions(inputs), paths: 50 };
+        const result = runMonteCarlo(inputs, 2.5, options);
+
+        expect(result.years).toEqual([0, 1, 2, 2.5]);
+        expect(result.buyWinProbability).toHaveLength(4);
+    });
+
+    it('reproduces the same result for the same seed', () => {
+        const options = { ...defaultSimulationOptions(inputs), paths: 100, seed: 99 };
+        expect(runMonteCarlo(inputs, 5, options)).toEqual(runMonteCarlo(inputs, 5, options));
+    });
+
+    it('takes its rows from the engine when the horizon is not a whole month', () => {
+        const options = { ...defaultSimulationOptions(inputs), paths: 20 };
+        const result = runMonteCarlo(inputs, 7.01, options);
+
+        expect(result.years).toEqual(calculateNetWorth(inputs, 7.01).map(d => d.year));
+        expect(result.buy.p10.every(Number.isFinite)).toBe(true);
+    });
+});
+
+describe('runMonteCarloAsync', () => {
+    const options = { ...defaultSimulationOptions(inputs), paths: 120, seed: 5 };
+
+    it('matches the synchronous run', async () => {
+        await expect(runMonteCarloAsync(inputs, 5, options)).resolves.toEqual(runMonteCarlo(inputs, 5, options));
+    });
+
+    it('stops with null once aborted', async () => {
+        const controller = new AbortController();
+        const run = runMonteCarloAsync(inputs, 5, options, controller.signal);
+        controller.abort();
+        await expect(run).resolves.toBeNull();
+    });
+});
+
+describe('generateRatePath', () => {
+    it('correlates housing and equity draws', () => {
+        const options = defaultSimulationOptions({ homeAppreciationRate: 0, rentGrowthRate: 0, investmentReturnRate: 0 } as CalculatorInputs);
+        options.correlation = 0.9;
+        options.homeAppreciation.volatility = 0.1;
+        options.investmentReturn.volatility = 0.1;
+
+        const path = generateRatePath(options, 5000, createRng(3));
+        const xs = path.homeAppreciation;
+        const ys = path.investmentReturn;
+        const mean = (v: number[]) => v.reduce((a, b) => a + b, 0) / v.length;
+        const mx = mean(xs);
+        const my = mean(ys);
+        let cov = 0, vx = 0, vy = 0;
+        for (let i = 0; i < xs.length; i++) {
+            cov += (xs[i] - mx) * (ys[i] - my);
+            vx += (xs[i] - mx) ** 2;
+            vy += (ys[i] - my) ** 2;
+        }
+        expect(cov / Math.sqrt(vx * vy)).toBeCloseTo(0.9, 1);
+    });
+});
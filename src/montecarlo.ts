@@ -0,0 +1,209 @@
+// Monte Carlo simulation of appreciation, rent growth and investment returns
+
+import { calculateNetWorth, CalculatorInputs, RatePath } from './calculator.js';
+
+// Yearly rates are drawn from a normal distribution
+export interface Distribution {
+    mean: number; // Annual rate as decimal
+    volatility: number; // Standard deviation of the annual rate
+}
+
+export interface SimulationOptions {
+    paths: number;
+    seed: number;
+    homeAppreciation: Distribution;
+    rentGrowth: Distribution;
+    investmentReturn: Distribution;
+    correlation: number; // Between housing and equity returns, -1 to 1
+}
+
+export interface PercentileBands {
+    p10: number[];
+    p50: number[];
+    p90: number[];
+}
+
+export interface SimulationResult {
+    years: number[];
+    buy: PercentileBands;
+    rent: PercentileBands;
+    buyWinProbability: number[]; // Share of paths where buying is ahead, per year
+}
+
+// Historical-ish volatility for Bay Area housing, rents and a stock portfolio
+export const DEFAULT_VOLATILITY = {
+    homeAppreciation: 0.08,
+    rentGrowth: 0.03,
+    investmentReturn: 0.16,
+    correlation: 0.2,
+};
+
+// Annual rates can't fall below -95% (a total loss would break compounding)
+const MIN_RATE = -0.95;
+
+// Seedable PRNG (mulberry32) returning values in [0, 1)
+export function createRng(seed: number): () => number {
+    let state = seed >>> 0;
+    return () => {
+        state = (state + 0x6d2b79f5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
+
+// Standard normal draw (Box-Muller)
+function standardNormal(rng: () => number): number {
+    const u1 = 1 - rng(); // Avoid log(0)
+    const u2 = rng();
+    return Math.sqrt(-2 * Math.log(u1)) * Math.cos(2 * Math.PI * u2);
+}
+
+function draw(distribution: Distribution, z: number): number {
+    return Math.max(MIN_RATE, distribution.mean + distribution.volatility * z);
+}
+
+// Center the distributions on the deterministic inputs
+export function defaultSimulationOptions(inputs: CalculatorInputs): SimulationOptions {
+    return {
+        paths: 2000,
+        seed: 1,
+        homeAppreciation: {
+            mean: inputs.homeAppreciationRate,
+            volatility: DEFAULT_VOLATILITY.homeAppreciation,
+        },
+        rentGrowth: { mean: inputs.rentGrowthRate, volatility: DEFAULT_VOLATILITY.rentGrowth },
+        investmentReturn: {
+            mean: inputs.investmentReturnRate,
+            volatility: DEFAULT_VOLATILITY.investmentReturn,
+        },
+        correlation: DEFAULT_VOLATILITY.correlation,
+    };
+}
+
+// Generate one path of yearly rates with correlated housing and equity draws
+export function generateRatePath(
+    options: SimulationOptions,
+    years: number,
+    rng: () => number
+): RatePath {
+    const path: RatePath = { homeAppreciation: [], rentGrowth: [], investmentReturn: [] };
+    const rho = Math.max(-1, Math.min(1, options.correlation));
+    const independent = Math.sqrt(1 - rho * rho);
+
+    for (let year = 0; year < years; year++) {
+        const zHousing = standardNormal(rng);
+        const zEquity = rho * zHousing + independent * standardNormal(rng);
+        const zRent = standardNormal(rng);
+
+        path.homeAppreciation.push(draw(options.homeAppreciation, zHousing));
+        path.investmentReturn.push(draw(options.investmentReturn, zEquity));
+        path.rentGrowth.push(draw(options.rentGrowth, zRent));
+    }
+    return path;
+}
+
+// Nearest-rank percentile of a sorted array
+function percentile(sorted: Float64Array, p: number): number {
+    const index = Math.min(sorted.length - 1, Math.max(0, Math.ceil(p * sorted.length) - 1));
+    return sorted[index];
+}
+
+function toBands(valuesByYear: number[][]): PercentileBands {
+    const bands: PercentileBands = { p10: [], p50: [], p90: [] };
+    for (const values of valuesByYear) {
+        // Typed array sort is numeric, unlike Array.prototype.sort
+        const sorted = Float64Array.from(values).sort();
+        bands.p10.push(percentile(sorted, 0.1));
+        bands.p50.push(percentile(sorted, 0.5));
+        bands.p90.push(percentile(sorted, 0.9));
+    }
+    return bands;
+}
+
+// Net worths of every path so far, one list per engine row
+interface PathSamples {
+    years: number[]; // Row years, taken from the first path
+    buy: number[][];
+    rent: number[][];
+    buyWins: number[];
+    paths: number;
+}
+
+function emptySamples(): PathSamples {
+    return { years: [], buy: [], rent: [], buyWins: [], paths: 0 };
+}
+
+// Run `count` more paths into the samples. The rows come from the engine, so a fractional
+// horizon gets exactly the rows calculateNetWorth returns.
+function simulatePaths(
+    samples: PathSamples,
+    inputs: CalculatorInputs,
+    years: number,
+    options: SimulationOptions,
+    rng: () => number,
+    count: number
+): void {
+    for (let i = 0; i < count; i++) {
+        const data = calculateNetWorth(inputs, years, generateRatePath(options, years, rng));
+        if (samples.paths === 0) {
+            samples.years = data.map(d => d.year);
+            samples.buy = data.map(() => []);
+            samples.rent = data.map(() => []);
+            samples.buyWins = data.map(() => 0);
+        }
+        data.forEach((d, row) => {
+            samples.buy[row].push(d.buyNetWorth);
+            samples.rent[row].push(d.rentNetWorth);
+            if (d.buyNetWorth > d.rentNetWorth) {
+                samples.buyWins[row]++;
+            }
+        });
+        samples.paths++;
+    }
+}
+
+function summarize(samples: PathSamples): SimulationResult {
+    return {
+        years: samples.years,
+        buy: toBands(samples.buy),
+        rent: toBands(samples.rent),
+        buyWinProbability: samples.buyWins.map(count => count / samples.paths),
+    };
+}
+
+// Run many simulated paths and summarize both net worths per year
+export function runMonteCarlo(
+    inputs: CalculatorInputs,
+    years: number,
+    options: SimulationOptions = defaultSimulationOptions(inputs)
+): SimulationResult {
+    const samples = emptySamples();
+    simulatePaths(samples, inputs, years, options, createRng(options.seed), options.paths);
+    return summarize(samples);
+}
+
+// Paths run between yields to the event loop in runMonteCarloAsync
+const PATHS_PER_CHUNK = 50;
+
+// Same result as runMonteCarlo, computed in chunks so the page stays responsive. Resolves to
+// null if the signal aborts first, e.g. because the inputs changed.
+export async function runMonteCarloAsync(
+    inputs: CalculatorInputs,
+    years: number,
+    options: SimulationOptions = defaultSimulationOptions(inputs),
+    signal?: AbortSignal
+): Promise<SimulationResult | null> {
+    const samples = emptySamples();
+    const rng = createRng(options.seed);
+    while (samples.paths < options.paths) {
+        await new Promise(resolve => setTimeout(resolve, 0));
+        if (signal?.aborted) {
+            return null;
+        }
+        const count = Math.min(PATHS_PER_CHUNK, options.paths - samples.paths);
+        simulatePaths(samples, inputs, years, options, rng, count);
+    }
+    return summarize(samples);
+}
@@ -0,0 +1,32 @@
+import { addToPortfolio, calculateLiquidationTax, growPortfolio, openPortfolio } from './portfolio';
+
+describe('portfolio', () => {
+    it('tracks contributions in the cost basis', () => {
+        const portfolio = addToPortfolio(openPortfolio(100000), 5000);
+        expect(portfolio).toEqual({ value: 105000, basis: 105000 });
+    });
+
+    it('lowers the basis in proportion to what is withdrawn', () => {
+        const portfolio = addToPortfolio({ value: 200000, basis: 100000 }, -50000);
+        expect(portfolio).toEqual({ value: 150000, basis: 75000 });
+    });
+
+    it('grows like plain compounding without dividends', () => {
+        const { portfolio, dividendTax } = growPortfolio(openPortfolio(100000), 0.07, 0, 0.3);
+        expect(portfolio.value).toBe(100000 * (1 + 0.07 / 12));
+        expect(portfolio.basis).toBe(100000);
+        expect(dividendTax).toBe(0);
+    });
+
+    it('taxes dividends and adds the reinvested remainder to the basis', () => {
+        const { portfolio, dividendTax } = growPortfolio(openPortfolio(120000), 0.06, 0.02, 0.25);
+        expect(dividendTax).toBeCloseTo(200 * 0.25, 10);
+        expect(portfolio.value).toBeCloseTo(120600 - 50, 10);
+        expect(portfolio.basis).toBeCloseTo(120150, 10);
+    });
+
+    it('taxes only the gain over the basis when sold', () => {
+        expect(calculateLiquidationTax({ value: 150000, basis: 100000 }, 0.243)).toBeCloseTo(50000 * 0.243, 10);
+        expect(calculateLiquidationTax({ value: 90000, basis: 100000 }, 0.243)).toBe(0);
+    });
+});
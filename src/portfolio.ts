@@ -0,0 +1,44 @@
+// Taxable investment account: dividends taxed yearly, gains taxed on liquidation
+
+export interface Portfolio {
+    value: number;
+    basis: number; // Cost basis: contributions plus reinvested after-tax dividends
+}
+
+export function openPortfolio(amount: number): Portfolio {
+    return { value: amount, basis: amount };
+}
+
+// Add money, or withdraw it (negative amount). Withdrawals sell shares at the average
+// cost, so the basis falls in proportion to the value sold.
+export function addToPortfolio(portfolio: Portfolio, amount: number): Portfolio {
+    if (amount >= 0) {
+        return { value: portfolio.value + amount, basis: portfolio.basis + amount };
+    }
+    const soldShare = portfolio.value > 0 ? Math.min(1, -amount / portfolio.value) : 1;
+    return { value: portfolio.value + amount, basis: portfolio.basis * (1 - soldShare) };
+}
+
+// One month of growth. The dividend part of the return is taxed and the rest reinvested,
+// adding to the basis; returns the updated account and the tax paid.
+export function growPortfolio(
+    portfolio: Portfolio,
+    annualReturn: number,
+    dividendYield: number,
+    dividendTaxRate: number
+): { portfolio: Portfolio; dividendTax: number } {
+    const dividends = Math.max(0, portfolio.value) * dividendYield / 12;
+    const dividendTax = dividends * dividendTaxRate;
+    return {
+        portfolio: {
+            value: portfolio.value * (1 + annualReturn / 12) - dividendTax,
+            basis: portfolio.basis + dividends - dividendTax,
+        },
+        dividendTax,
+    };
+}
+
+// Tax owed if the account were sold today; losses owe nothing
+export function calculateLiquidationTax(portfolio: Portfolio, capitalGainsTaxRate: number): number {
+    return Math.max(0, portfolio.value - portfolio.basis) * capitalGainsTaxRate;
+}
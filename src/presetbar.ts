@@ -0,0 +1,133 @@
+// Assumption preset buttons, the user's saved presets and the all-presets chart overlay
+
+import { calculateNetWorth, CalculatorInputs } from './calculator.js';
+import { applyAssumptions, InputElements, readInputs } from './inputs.js';
+import {
+    AssumptionPreset,
+    BUILT_IN_PRESETS,
+    PRESET_COLORS,
+    PRESET_FIELDS,
+    applyPreset,
+    deletePreset,
+    isBuiltInName,
+    loadPresets,
+    matchingPreset,
+    presetFromInputs,
+    savePreset,
+} from './presets.js';
+import { validateInputs } from './validation.js';
+
+let presets: AssumptionPreset[] = [];
+
+// Chart.js datasets for every built-in preset applied to the inputs: solid Buy, dashed Rent
+export function presetDatasets(inputs: CalculatorInputs, years: number): any[] {
+    return BUILT_IN_PRESETS.flatMap((preset, index) => {
+        const color = PRESET_COLORS[index];
+        const data = calculateNetWorth(applyPreset(inputs, preset), years);
+        return [
+            {
+                label: `${preset.name} · Buy`,
+                data: data.map(d => d.buyNetWorth),
+                borderColor: color,
+                backgroundColor: color,
+                tension: 0.1,
+                fill: false,
+            },
+            {
+                label: `${preset.name} · Rent`,
+                data: data.map(d => d.rentNetWorth),
+                borderColor: color,
+                backgroundColor: color,
+                borderDash: [6, 4],
+                tension: 0.1,
+                fill: false,
+            },
+        ];
+    });
+}
+
+function presetButton(preset: AssumptionPreset, active: boolean, onClick: () => void): HTMLButtonElement {
+    const button = document.createElement('button');
+    button.type = 'button';
+    button.className = 'preset-button';
+    button.textContent = preset.name;
+    button.title = `Appreciation ${percent(preset.homeAppreciationRate)}, rent growth ` +
+        `${percent(preset.rentGrowthRate)}, investments ${percent(preset.investmentReturnRate)}, ` +
+        `maintenance ${percent(preset.maintenanceRate)}`;
+    button.setAttribute('aria-pressed', String(active));
+    button.addEventListener('click', onClick);
+    return button;
+}
+
+function percent(rate: number): string {
+    return `${parseFloat((rate * 100).toFixed(2))}%`;
+}
+
+// One button per built-in and saved preset; the one the inputs match is pressed
+export function renderPresetButtons(
+    container: HTMLElement,
+    elements: InputElements,
+    onChange: () => void
+): void {
+    const active = matchingPreset(readInputs(elements), [...BUILT_IN_PRESETS, ...presets]);
+    const apply = (preset: AssumptionPreset) => () => {
+        applyAssumptions(elements, preset);
+        onChange();
+    };
+
+    const buttons: HTMLElement[] = BUILT_IN_PRESETS.map(preset =>
+        presetButton(preset, preset === active, apply(preset))
+    );
+    for (const preset of presets) {
+        const remove = document.createElement('button');
+        remove.type = 'button';
+        remove.className = 'link-button';
+        remove.textContent = '×';
+        remove.title = `Delete ${preset.name}`;
+        remove.addEventListener('click', () => {
+            presets = deletePreset(window.localStorage, preset.name);
+            onChange();
+        });
+
+        const group = document.createElement('span');
+        group.className = 'preset-saved';
+        group.append(presetButton(preset, preset === active, apply(preset)), remove);
+        buttons.push(group);
+    }
+    container.replaceChildren(...buttons);
+}
+
+// Pick up presets added to localStorage elsewhere, e.g. from a shared link
+export function reloadPresets(): void {
+    presets = loadPresets(window.localStorage);
+}
+
+// Wire up saving the current assumptions and load saved presets from localStorage
+export function setupPresetBar(elements: InputElements, onChange: () => void): void {
+    reloadPresets();
+
+    const nameInput = document.getElementById('preset-name') as HTMLInputElement;
+    const saveButton = document.getElementById('save-preset') as HTMLButtonElement;
+
+    const save = () => {
+        const inputs = readInputs(elements);
+        // Built-in names are reserved
+        if (!nameInput.value.trim() || isBuiltInName(nameInput.value)) {
+            nameInput.focus();
+            return;
+        }
+        // Only valid assumptions can be saved
+        const fields: readonly string[] = PRESET_FIELDS;
+        if (validateInputs(inputs).some(issue => issue.severity === 'error' && fields.includes(issue.field))) {
+            return;
+        }
+        presets = savePreset(window.localStorage, presetFromInputs(nameInput.value, inputs));
+        nameInput.value = '';
+        onChange();
+    };
+
+    saveButton.addEventListener('click', save);
+    nameInput.addEventListener('keydown', event => {
+        if (event.key === 'Enter') save();
+    });
+}
@@ -0,0 +1,122 @@
+import { DEFAULT_INPUTS } from './calculator';
+import {
+    applyPreset,
+    BUILT_IN_PRESETS,
+    compareBuiltInPresets,
+    deletePreset,
+    importPresets,
+    loadPresets,
+    matchingPreset,
+    presetFromInputs,
+    savePreset,
+} from './presets';
+import { ScenarioStorage } from './scenarios';
+import { decodeState, encodeState } from './urlcodec';
+import { validateInputs } from './validation';
+import { CLI_DEFAULT_INPUTS } from './commandline';
+
+function memoryStorage(): ScenarioStorage {
+    const items = new Map<string, string>();
+    return {
+        getItem: (key: string) => items.get(key) ?? null,
+        setItem: (key: string, value: string) => {
+            items.set(key, value);
+        },
+    };
+}
+
+const inputs = CLI_DEFAULT_INPUTS;
+
+describe('built-in presets', () => {
+    it('are valid, ordered from conservative to aggressive, with moderate at the defaults', () => {
+        for (const preset of BUILT_IN_PRESETS) {
+            expect(validateInputs(applyPreset(inputs, preset))).toEqual([]);
+        }
+        const [conservative, moderate, aggressive] = BUILT_IN_PRESETS;
+        expect(conservative.homeAppreciationRate).toBeLessThan(moderate.homeAppreciationRate);
+        expect(aggressive.investmentReturnRate).toBeGreaterThan(moderate.investmentReturnRate);
+        expect(moderate.investmentReturnRate).toBe(DEFAULT_INPUTS.investmentReturnRate);
+        expect(moderate.maintenanceRate).toBe(DEFAULT_INPUTS.maintenanceRate);
+    });
+
+    it('summarizes the inputs under each preset', () => {
+        const [conservative, moderate, aggressive] = compareBuiltInPresets(inputs, 30);
+        expect(moderate.summary.finalBuyNetWorth).toBeGreaterThan(conservative.summary.finalBuyNetWorth);
+        expect(aggressive.summary.finalBuyNetWorth).toBeGreaterThan(moderate.summary.finalBuyNetWorth);
+    });
+});
+
+describe('applyPreset / matchingPreset', () => {
+    it('sets only the preset fields', () => {
+        const aggressive = BUILT_IN_PRESETS[2];
+        expect(applyPreset(inputs, aggressive)).toEqual({
+            ...inputs,
+            homeAppreciationRate: 0.06,
+            rentGrowthRate: 0.045,
+            investmentReturnRate: 0.09,
+            maintenanceRate: 0.0075,
+        });
+    });
+
+    it('finds the preset the inputs hold, tolerating percent round-off', () => {
+        expect(matchingPreset(inputs, BUILT_IN_PRESETS)?.name).toBe('Moderate');
+        expect(matchingPreset({ ...inputs, rentGrowthRate: 0.031 }, BUILT_IN_PRESETS)).toBeUndefined();
+        const formValues = { ...inputs, homeAppreciationRate: 0.06, rentGrowthRate: 0.045, investmentReturnRate: 0.09 };
+        expect(matchingPreset({ ...formValues, maintenanceRate: 0.0075 + 1e-12 }, BUILT_IN_PRESETS)?.name)
+            .toBe('Aggressive');
+    });
+});
+
+describe('saved presets', () => {
+    it('saves from the inputs, replaces by name and deletes', () => {
+        const storage = memoryStorage();
+        savePreset(storage, presetFromInputs(' Flat rents ', { ...inputs, rentGrowthRate: 0 }));
+        savePreset(storage, presetFromInputs('Flat rents', { ...inputs, rentGrowthRate: 0.01 }));
+
+        expect(loadPresets(storage)).toEqual([{
+            name: 'Flat rents',
+            homeAppreciationRate: 0.04,
+            rentGrowthRate: 0.01,
+            investmentReturnRate: 0.07,
+            maintenanceRate: 0.01,
+        }]);
+        expect(deletePreset(storage, 'Flat rents')).toEqual([]);
+    });
+
+    it('reserves the built-in names', () => {
+        const storage = memoryStorage();
+        expect(savePreset(storage, presetFromInputs('moderate', inputs))).toEqual([]);
+    });
+
+    it('keeps a same-named saved preset when a link is opened', () => {
+        const storage = memoryStorage();
+        savePreset(storage, presetFromInputs('Flat rents', { ...inputs, rentGrowthRate: 0 }));
+
+        const shared = decodeState(encodeState({
+            inputs,
+            years: 10,
+            scenarios: [],
+            presets: [
+                presetFromInputs('Flat rents', { ...inputs, rentGrowthRate: 0.01 }),
+                presetFromInputs('Moderate', { ...inputs, homeAppreciationRate: 0.03 }),
+            ],
+            showAllPresets: false,
+        }))!;
+        importPresets(storage, shared.presets!);
+        // Opening the same link again adds nothing more
+        importPresets(storage, shared.presets!);
+
+        const presets = loadPresets(storage);
+        expect(presets.map(p => p.name)).toEqual(['Flat rents', 'Flat rents (shared)', 'Moderate (shared)']);
+        expect(presets[0].rentGrowthRate).toBe(0);
+        expect(presets[1].rentGrowthRate).toBe(0.01);
+    });
+
+    it('ignores malformed storage', () => {
+        const storage = memoryStorage();
+        storage.setItem('rentvsbuy.presets', JSON.stringify([{ name: 'No rates' }, 'junk']));
+        expect(loadPresets(storage)).toEqual([]);
+        storage.setItem('rentvsbuy.presets', '{');
+        expect(loadPresets(storage)).toEqual([]);
+    });
+});
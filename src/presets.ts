@@ -0,0 +1,177 @@
+// Assumption presets: market assumptions set together, built in or saved by the user
+
+import { CalculatorInputs } from './calculator.js';
+import {
+    isNameOrSharedCopy,
+    ScenarioStorage,
+    ScenarioSummary,
+    summarizeScenario,
+    unusedName,
+} from './scenarios.js';
+
+// The inputs a preset sets
+export const PRESET_FIELDS = [
+    'homeAppreciationRate',
+    'rentGrowthRate',
+    'investmentReturnRate',
+    'maintenanceRate',
+] as const;
+
+export type PresetField = (typeof PRESET_FIELDS)[number];
+
+export interface AssumptionPreset extends Pick<CalculatorInputs, PresetField> {
+    name: string;
+}
+
+// Moderate matches the page defaults. Conservative assumes a flat market and a costly house;
+// aggressive assumes the Bay Area's boom decades repeat.
+export const BUILT_IN_PRESETS: AssumptionPreset[] = [
+    {
+        name: 'Conservative',
+        homeAppreciationRate: 0.02,
+        rentGrowthRate: 0.02,
+        investmentReturnRate: 0.05,
+        maintenanceRate: 0.015,
+    },
+    {
+        name: 'Moderate',
+        homeAppreciationRate: 0.04,
+        rentGrowthRate: 0.03,
+        investmentReturnRate: 0.07,
+        maintenanceRate: 0.01,
+    },
+    {
+        name: 'Aggressive',
+        homeAppreciationRate: 0.06,
+        rentGrowthRate: 0.045,
+        investmentReturnRate: 0.09,
+        maintenanceRate: 0.0075,
+    },
+];
+
+// Distinct from the live lines and the saved scenario colors, in BUILT_IN_PRESETS order
+export const PRESET_COLORS = ['#0f766e', '#1e3a8a', '#be123c'];
+
+const STORAGE_KEY = 'rentvsbuy.presets';
+
+export function applyPreset(inputs: CalculatorInputs, preset: AssumptionPreset): CalculatorInputs {
+    const applied = { ...inputs };
+    for (const field of PRESET_FIELDS) {
+        applied[field] = preset[field];
+    }
+    return applied;
+}
+
+export function presetFromInputs(name: string, inputs: CalculatorInputs): AssumptionPreset {
+    const preset = { name: name.trim() } as AssumptionPreset;
+    for (const field of PRESET_FIELDS) {
+        preset[field] = inputs[field];
+    }
+    return preset;
+}
+
+// The preset whose values the inputs currently hold, if any (built-ins first)
+export function matchingPreset(
+    inputs: CalculatorInputs,
+    presets: AssumptionPreset[]
+): AssumptionPreset | undefined {
+    // Form values go through percent conversions, so compare with a small tolerance
+    return presets.find(preset =>
+        PRESET_FIELDS.every(field => Math.abs(preset[field] - inputs[field]) < 1e-9)
+    );
+}
+
+export function isBuiltInName(name: string): boolean {
+    const trimmed = name.trim().toLowerCase();
+    return BUILT_IN_PRESETS.some(preset => preset.name.toLowerCase() === trimmed);
+}
+
+export function isAssumptionPreset(value: unknown): value is AssumptionPreset {
+    const record = value as Record<string, unknown> | null;
+    return typeof record === 'object' && record !== null &&
+        typeof record.name === 'string' && record.name.trim() !== '' &&
+        PRESET_FIELDS.every(field => typeof record[field] === 'number' && Number.isFinite(record[field]));
+}
+
+// Read the user's presets, ignoring anything malformed
+export function loadPresets(storage: ScenarioStorage): AssumptionPreset[] {
+    const raw = storage.getItem(STORAGE_KEY);
+    if (!raw) return [];
+
+    try {
+        const parsed = JSON.parse(raw);
+        return Array.isArray(parsed) ? parsed.filter(isAssumptionPreset) : [];
+    } catch {
+        return [];
+    }
+}
+
+function storePresets(storage: ScenarioStorage, presets: AssumptionPreset[]): void {
+    storage.setItem(STORAGE_KEY, JSON.stringify(presets));
+}
+
+// Save a preset, replacing any with the same name. Built-in names are reserved and left as is.
+export function savePreset(storage: ScenarioStorage, preset: AssumptionPreset): AssumptionPreset[] {
+    const presets = loadPresets(storage);
+    const name = preset.name.trim();
+    if (!name || isBuiltInName(name)) {
+        return presets;
+    }
+
+    const saved = { ...preset, name };
+    const index = presets.findIndex(p => p.name === name);
+    if (index >= 0) {
+        presets[index] = saved;
+    } else {
+        presets.push(saved);
+    }
+    storePresets(storage, presets);
+    return presets;
+}
+
+// Add presets from a shared link without touching the stored ones. A preset already stored
+// under the same name (or a copy of it) with the same values is skipped; other clashes,
+// including with a built-in name, get a "(shared)" suffix.
+export function importPresets(
+    storage: ScenarioStorage,
+    shared: AssumptionPreset[]
+): AssumptionPreset[] {
+    const presets = loadPresets(storage);
+
+    for (const preset of shared) {
+        const name = preset.name.trim();
+        if (!name) continue;
+        const duplicate = presets.some(p =>
+            isNameOrSharedCopy(p.name, name) &&
+            PRESET_FIELDS.every(field => p[field] === preset[field])
+        );
+        if (duplicate) continue;
+
+        presets.push({
+            ...preset,
+            name: unusedName(name, candidate =>
+                isBuiltInName(candidate) || presets.some(p => p.name === candidate)
+            ),
+        });
+    }
+
+    storePresets(storage, presets);
+    return presets;
+}
+
+export function deletePreset(storage: ScenarioStorage, name: string): AssumptionPreset[] {
+    const presets = loadPresets(storage).filter(p => p.name !== name);
+    storePresets(storage, presets);
+    return presets;
+}
+
+// Final net worths and crossover with each built-in preset applied to the inputs
+export function compareBuiltInPresets(
+    inputs: CalculatorInputs,
+    years: number
+): Array<{ preset: AssumptionPreset; summary: ScenarioSummary }> {
+    return BUILT_IN_PRESETS.map(preset => ({
+        preset,
+        summary: summarizeScenario(applyPreset(inputs, preset), years),
+    }));
+}
@@ -0,0 +1,42 @@
+import { calculateNetWorth } from './calculator';
+import { buildReport, formatReportsJSON, formatReportsTable } from './report';
+import { CLI_DEFAULT_INPUTS } from './commandline';
+
+describe('reports', () => {
+    const inputs = CLI_DEFAULT_INPUTS;
+
+    it('uses the scenario horizon over the default', () => {
+        const report = buildReport({ schemaVersion: 1, name: 'Long', years: 20, inputs }, 10);
+        expect(report.years).toBe(20);
+        expect(report.yearly).toEqual(calculateNetWorth(inputs, 20));
+        expect(buildReport({ schemaVersion: 1, inputs }, 10).yearly).toHaveLength(11);
+    });
+
+    it('prints one aligned table per scenario', () => {
+        const reports = [
+            buildReport({ schemaVersion: 1, name: 'Oakland', inputs: { ...inputs, monthlyRent: 3000 } }, 3),
+            buildReport({ schemaVersion: 1, inputs }, 3),
+        ];
+        const text = formatReportsTable(reports);
+        const [first, second] = text.split('\n\nScenario 2\n');
+
+        expect(first.startsWith('Oakland\nBuying ')).toBe(true);
+        expect(second.startsWith('Buying does not pull ahead within 3 years')).toBe(true);
+
+        const rows = first.split('\n').slice(3);
+        expect(rows).toHaveLength(2 + 4); // Header, rule, years 0-3
+        expect(new Set(rows.map(row => row.length)).size).toBe(1);
+    });
+
+    it('notes when amounts are in today\'s dollars', () => {
+        const real = buildReport({ schemaVersion: 1, inputs: { ...inputs, inflationRate: 0.03, realDollars: true } }, 3);
+        expect(formatReportsTable([real])).toMatch(
+            /^Buying does not pull ahead within 3 years, in today's dollars at 3\.0% inflation\n/
+        );
+    });
+
+    it('serializes the yearly series and crossover as JSON', () => {
+        const report = buildReport({ schemaVersion: 1, inputs }, 5);
+        expect(JSON.parse(formatReportsJSON([report]))).toEqual([JSON.parse(JSON.stringify(report))]);
+    });
+});
@@ -0,0 +1,68 @@
+// Yearly results and crossover for headless runs, printable as JSON or a text table
+
+import { calculateNetWorth, CalculatorInputs, findCrossoverYear, YearlyData } from './calculator.js';
+import { formatCurrency } from './format.js';
+import { ScenarioFile } from './scenariofile.js';
+
+export interface ScenarioReport {
+    name?: string;
+    years: number;
+    inputs: CalculatorInputs;
+    crossoverYear: number | null; // When buying pulls ahead, null if it never does
+    yearly: YearlyData[];
+}
+
+// Run one scenario; defaultYears applies when the scenario has no horizon of its own
+export function buildReport(scenario: ScenarioFile, defaultYears: number): ScenarioReport {
+    const years = scenario.years ?? defaultYears;
+    const yearly = calculateNetWorth(scenario.inputs, years);
+    return {
+        name: scenario.name,
+        years,
+        inputs: scenario.inputs,
+        crossoverYear: findCrossoverYear(yearly),
+        yearly,
+    };
+}
+
+export function formatReportsJSON(reports: ScenarioReport[]): string {
+    return JSON.stringify(reports, null, 2);
+}
+
+// Real-dollar runs say so, since every amount in the table is deflated
+function describeCrossover(report: ScenarioReport): string {
+    const crossover = report.crossoverYear === null
+        ? `Buying does not pull ahead within ${report.years} years`
+        : `Buying pulls ahead after ${report.crossoverYear.toFixed(1)} years`;
+    if (!report.inputs.realDollars) return crossover;
+    const inflation = ((report.inputs.inflationRate ?? 0) * 100).toFixed(1);
+    return `${crossover}, in today's dollars at ${inflation}% inflation`;
+}
+
+// Right-aligned columns sized to their widest cell
+function formatTable(header: string[], rows: string[][]): string {
+    const widths = header.map((cell, column) =>
+        Math.max(cell.length, ...rows.map(row => row[column].length))
+    );
+    const line = (cells: string[]) => cells.map((cell, column) => cell.padStart(widths[column])).join('  ');
+    return [line(header), widths.map(width => '-'.repeat(width)).join('  '), ...rows.map(line)].join('\n');
+}
+
+// One block per scenario: a title, the crossover and net worth by year
+export function formatReportsTable(reports: ScenarioReport[]): string {
+    return reports.map((report, index) => {
+        const title = report.name ?? (reports.length > 1 ? `Scenario ${index + 1}` : undefined);
+        const rows = report.yearly.map(data => [
+            data.year.toString(),
+            formatCurrency(data.buyNetWorth),
+            formatCurrency(data.rentNetWorth),
+            formatCurrency(data.buyNetWorth - data.rentNetWorth),
+        ]);
+        return [
+            ...(title ? [title] : []),
+            describeCrossover(report),
+            '',
+            formatTable(['Year', 'Buy', 'Rent', 'Buy - Rent'], rows),
+        ].join('\n');
+    }).join('\n\n') + '\n';
+}
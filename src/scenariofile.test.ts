@@ -0,0 +1,129 @@
+import { CalculatorInputs } from './calculator';
+import { buildExport, EXPORT_SCHEMA_VERSION, toJSON } from './export';
+import { parseScenarioBatch, parseScenarioFile } from './scenariofile';
+import { CLI_DEFAULT_INPUTS } from './commandline';
+
+const inputs: CalculatorInputs = {
+    ...CLI_DEFAULT_INPUTS,
+    filingStatus: 'single',
+    loan: { type: 'fixed', termYears: 15 },
+    refinances: [{ year: 3, rate: 0.05, termYears: 15, closingCost: 5000 }],
+};
+
+describe('parseScenarioFile', () => {
+    it('reads back an exported file', () => {
+        const result = parseScenarioFile(toJSON(buildExport(inputs, 12)));
+        expect(result).toEqual({
+            ok: true,
+            scenario: { schemaVersion: EXPORT_SCHEMA_VERSION, name: undefined, years: 12, inputs },
+            warnings: [],
+        });
+    });
+
+    it('migrates unversioned files holding bare inputs or a saved scenario', () => {
+        const bare = parseScenarioFile(JSON.stringify(inputs));
+        const saved = parseScenarioFile(JSON.stringify({
+            id: 'abc',
+            name: 'Sunnyvale condo',
+            inputs,
+            visible: true,
+            savedAt: '2026-01-01T00:00:00.000Z',
+        }));
+
+        expect(bare.ok && bare.scenario.inputs).toEqual(inputs);
+        expect(saved.ok && saved.scenario.name).toBe('Sunnyvale condo');
+        expect(saved.ok && saved.scenario.inputs).toEqual(inputs);
+    });
+
+    it('rejects files from a newer schema version', () => {
+        const result = parseScenarioFile(JSON.stringify({ schemaVersion: EXPORT_SCHEMA_VERSION + 1, inputs }));
+        expect(result).toEqual({
+            ok: false,
+            errors: [`File uses schema version ${EXPORT_SCHEMA_VERSION + 1}; this page reads up to version ${EXPORT_SCHEMA_VERSION}`],
+        });
+    });
+
+    it('lists unknown, missing and mistyped fields', () => {
+        const { monthlyRent, ...withoutRent } = inputs;
+        const result = parseScenarioFile(JSON.stringify({
+            schemaVersion: 1,
+            inputs: { ...withoutRent, mortgageRate: '6.5', hoa: 200, loan: { type: 'balloon', termYears: 30 } },
+        }));
+
+        expect(monthlyRent).toBe(4000);
+        expect(result).toEqual({
+            ok: false,
+            errors: [
+                'inputs.monthlyRent is missing',
+                'inputs.mortgageRate must be a number',
+                'Unknown field inputs.hoa',
+                'inputs.loan.type must be one of "fixed", "arm"',
+            ],
+        });
+    });
+
+    it('reports out-of-range values with the form\'s messages', () => {
+        const result = parseScenarioFile(JSON.stringify({
+            schemaVersion: 1,
+            years: 45,
+            inputs: { ...inputs, downPaymentPercent: 150 },
+        }));
+        expect(result.ok).toBe(false);
+        expect(!result.ok && result.errors).toEqual(['years must be from 1 to 30 in whole months']);
+
+        const ranged = parseScenarioFile(JSON.stringify({ schemaVersion: 1, inputs: { ...inputs, downPaymentPercent: 150 } }));
+        expect(!ranged.ok && ranged.errors).toEqual([
+            'inputs.downPaymentPercent: Down payment must be between 0% and 100%',
+        ]);
+    });
+
+    it('imports with warnings for unrealistic values', () => {
+        const result = parseScenarioFile(JSON.stringify({ schemaVersion: 1, inputs: { ...inputs, hoaMonthly: 9000 } }));
+        expect(result.ok && result.warnings).toEqual([
+            'inputs.hoaMonthly: HOA fees seems unrealistic (usually under $5,000)',
+        ]);
+    });
+
+    it('rejects text that is not JSON', () => {
+        expect(parseScenarioFile('price=1500000')).toEqual({ ok: false, errors: ['File is not valid JSON'] });
+    });
+});
+
+describe('parseScenarioBatch', () => {
+    it('fills in inputs each scenario leaves out from the base', () => {
+        const result = parseScenarioBatch(JSON.stringify([
+            { name: 'Oakland', inputs: { purchasePrice: 900000, monthlyRent: 3200 } },
+            { schemaVersion: 1, name: 'San Jose', years: 20, inputs: { purchasePrice: 1300000 } },
+        ]), inputs);
+
+        expect(result.ok).toBe(true);
+        const scenarios = result.ok ? result.scenarios : [];
+        expect(scenarios.map(s => [s.name, s.years])).toEqual([['Oakland', undefined], ['San Jose', 20]]);
+        expect(scenarios[0].inputs).toEqual({ ...inputs, purchasePrice: 900000, monthlyRent: 3200 });
+        expect(scenarios[1].inputs.loan).toEqual(inputs.loan);
+    });
+
+    it('keeps the horizon of unversioned entries', () => {
+        const result = parseScenarioBatch(JSON.stringify([{ years: 7, inputs: {} }]), inputs);
+        expect(result.ok && result.scenarios[0].years).toBe(7);
+    });
+
+    it('labels problems with the scenario they belong to', () => {
+        const result = parseScenarioBatch(JSON.stringify([
+            { name: 'Fine', inputs: {} },
+            { name: 'Typo', inputs: { price: 900000 } },
+            42,
+        ]), inputs);
+        expect(result).toEqual({
+            ok: false,
+            errors: ['Scenario 2 (Typo): Unknown field inputs.price', 'Scenario 3 must be a JSON object'],
+        });
+    });
+
+    it('requires a non-empty list', () => {
+        expect(parseScenarioBatch('{}')).toEqual({
+            ok: false,
+            errors: ['File must contain a non-empty JSON list of scenarios'],
+        });
+    });
+});
@@ -0,0 +1,355 @@
+// Versioned scenario files: validate, migrate and read back exported JSON
+
+import { CalculatorInputs } from './calculator.js';
+import { EXPORT_SCHEMA_VERSION } from './export.js';
+import { LOCATION_PRESETS } from './locations.js';
+import { CITY_TRANSFER_TAXES } from './transactions.js';
+import { validateInputs } from './validation.js';
+
+export interface ScenarioFile {
+    schemaVersion: number;
+    name?: string;
+    years?: number; // Time horizon; omitted keeps the current one
+    inputs: CalculatorInputs;
+}
+
+export type ImportResult =
+    | { ok: true; scenario: ScenarioFile; warnings: string[] }
+    | { ok: false; errors: string[] };
+
+export type BatchResult =
+    | { ok: true; scenarios: ScenarioFile[]; warnings: string[] }
+    | { ok: false; errors: string[] };
+
+type FieldType = 'number' | 'boolean' | 'string' | 'number[]' | 'object' | 'array' | readonly (string | number)[];
+
+interface ObjectSchema {
+    fields: Record<string, FieldType>;
+    required: string[];
+}
+
+// Top level of an exported file; yearly results and the schedule are recomputed on import
+const FILE_SCHEMA: ObjectSchema = {
+    fields: {
+        schemaVersion: 'number',
+        name: 'string',
+        exportedAt: 'string',
+        years: 'number',
+        inputs: 'object',
+        yearly: 'array',
+        schedule: 'array',
+    },
+    required: ['schemaVersion', 'inputs'],
+};
+
+const INPUTS_SCHEMA: ObjectSchema = {
+    fields: {
+        purchasePrice: 'number',
+        downPaymentPercent: 'number',
+        mortgageRate: 'number',
+        monthlyRent: 'number',
+        homeAppreciationRate: 'number',
+        rentGrowthRate: 'number',
+        investmentReturnRate: 'number',
+        propertyTaxRate: 'number',
+        hoaMonthly: 'number',
+        maintenanceRate: 'number',
+        closingCostRate: 'number',
+        sellingCostRate: 'number',
+        insuranceAnnual: 'number',
+        filingStatus: ['single', 'married'],
+        federalTaxRate: 'number',
+        stateTaxRate: 'number',
+        otherItemizedDeductions: 'number',
+        otherSaltTaxes: 'number',
+        federalCapitalGainsRate: 'number',
+        pmiRate: 'number',
+        pmiCancelAtAppraisal: 'boolean',
+        investDifference: ['both', 'renter'],
+        applyProp13: 'boolean',
+        dividendYield: 'number',
+        afterTaxNetWorth: 'boolean',
+        inflationRate: 'number',
+        realDollars: 'boolean',
+        parcelTaxAnnual: 'number',
+        location: Object.keys(LOCATION_PRESETS),
+        priorAssessedValue: 'number',
+        transferredBaseValue: 'number',
+        soldHomePrice: 'number',
+        loan: 'object',
+        refinances: 'array',
+        transactionCosts: 'object',
+    },
+    required: [
+        'purchasePrice',
+        'downPaymentPercent',
+        'mortgageRate',
+        'monthlyRent',
+        'homeAppreciationRate',
+        'rentGrowthRate',
+        'investmentReturnRate',
+        'propertyTaxRate',
+        'hoaMonthly',
+        'maintenanceRate',
+        'closingCostRate',
+        'sellingCostRate',
+        'insuranceAnnual',
+    ],
+};
+
+// Loan choices are limited to what the form can show
+const LOAN_SCHEMA: ObjectSchema = {
+    fields: {
+        type: ['fixed', 'arm'],
+        termYears: [30, 20, 15, 10],
+        interestOnlyYears: 'number',
+        buydown: ['none', '2-1', '1-0'],
+        arm: 'object',
+    },
+    required: ['type', 'termYears'],
+};
+
+const ARM_SCHEMA: ObjectSchema = {
+    fields: {
+        initialYears: [3, 5, 7, 10],
+        adjustmentMonths: [12, 6],
+        margin: 'number',
+        indexPath: 'number[]',
+        periodicCap: 'number',
+        lifetimeCap: 'number',
+    },
+    required: ['initialYears', 'adjustmentMonths', 'margin', 'indexPath', 'periodicCap', 'lifetimeCap'],
+};
+
+const REFINANCE_SCHEMA: ObjectSchema = {
+    fields: {
+        year: 'number',
+        rate: 'number',
+        termYears: 'number',
+        closingCost: 'number',
+        cashOut: 'number',
+    },
+    required: ['year', 'rate', 'termYears', 'closingCost'],
+};
+
+const TRANSACTION_SCHEMA: ObjectSchema = {
+    fields: {
+        city: Object.keys(CITY_TRANSFER_TAXES),
+        buyerTransferTaxShare: 'number',
+        listingCommissionRate: 'number',
+        buyerAgentRate: 'number',
+        titleEscrowRate: 'number',
+        loanPoints: 'number',
+        lenderFees: 'number',
+    },
+    required: [
+        'city',
+        'buyerTransferTaxShare',
+        'listingCommissionRate',
+        'buyerAgentRate',
+        'titleEscrowRate',
+        'loanPoints',
+        'lenderFees',
+    ],
+};
+
+// Horizon range of the years slider
+export const MIN_YEARS = 1;
+export const MAX_YEARS = 30;
+
+// Horizons run in whole months, so selling after 7.5 years is allowed
+export function isValidHorizon(years: unknown): years is number {
+    return typeof years === 'number' &&
+        years >= MIN_YEARS &&
+        years <= MAX_YEARS &&
+        Math.abs(years * 12 - Math.round(years * 12)) < 1e-9;
+}
+
+export const HORIZON_RULE = `from ${MIN_YEARS} to ${MAX_YEARS} in whole months`;
+
+// Upgrade a file by one version. Unversioned files (schema 0) are a bare CalculatorInputs
+// object or a scenario saved by the comparison panel ({ name, inputs, ... }).
+const MIGRATIONS: Record<number, (file: Record<string, unknown>) => Record<string, unknown>> = {
+    0: file => 'inputs' in file
+        ? { schemaVersion: 1, name: file.name, years: file.years, inputs: file.inputs }
+        : { schemaVersion: 1, inputs: file },
+};
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function describeType(type: FieldType): string {
+    if (Array.isArray(type)) return `one of ${type.map(v => JSON.stringify(v)).join(', ')}`;
+    if (type === 'number[]') return 'a list of numbers';
+    if (type === 'object') return 'an object';
+    if (type === 'array') return 'a list';
+    return `a ${type}`;
+}
+
+function matchesType(value: unknown, type: FieldType): boolean {
+    if (Array.isArray(type)) return type.includes(value as string | number);
+    switch (type) {
+        case 'number': return typeof value === 'number' && Number.isFinite(value);
+        case 'number[]': return Array.isArray(value) && value.every(v => typeof v === 'number' && Number.isFinite(v));
+        case 'object': return isPlainObject(value);
+        case 'array': return Array.isArray(value);
+        default: return typeof value === type;
+    }
+}
+
+// Check required, unknown and mistyped fields of one object
+function checkObject(value: unknown, schema: ObjectSchema, path: string, errors: string[]): boolean {
+    if (!isPlainObject(value)) {
+        errors.push(`${path} must be an object`);
+        return false;
+    }
+    const before = errors.length;
+    for (const field of schema.required) {
+        if (!(field in value)) {
+            errors.push(`${path}.${field} is missing`);
+        }
+    }
+    for (const [field, fieldValue] of Object.entries(value)) {
+        const type = schema.fields[field];
+        if (type === undefined) {
+            errors.push(`Unknown field ${path}.${field}`);
+        } else if (fieldValue !== undefined && !matchesType(fieldValue, type)) {
+            errors.push(`${path}.${field} must be ${describeType(type)}`);
+        }
+    }
+    return errors.length === before;
+}
+
+// Structural problems with an inputs object: missing, unknown and mistyped fields.
+// Nested settings are checked even when other inputs have problems, to list them all.
+export function checkInputsShape(inputs: unknown, path: string = 'inputs'): string[] {
+    const errors: string[] = [];
+    checkObject(inputs, INPUTS_SCHEMA, path, errors);
+    if (!isPlainObject(inputs)) {
+        return errors;
+    }
+    if (isPlainObject(inputs.loan)) {
+        checkObject(inputs.loan, LOAN_SCHEMA, `${path}.loan`, errors);
+        if (isPlainObject(inputs.loan.arm)) {
+            checkObject(inputs.loan.arm, ARM_SCHEMA, `${path}.loan.arm`, errors);
+        }
+    }
+    if (isPlainObject(inputs.transactionCosts)) {
+        checkObject(inputs.transactionCosts, TRANSACTION_SCHEMA, `${path}.transactionCosts`, errors);
+    }
+    if (Array.isArray(inputs.refinances)) {
+        inputs.refinances.forEach((refinance, index) =>
+            checkObject(refinance, REFINANCE_SCHEMA, `${path}.refinances[${index}]`, errors)
+        );
+    }
+    return errors;
+}
+
+// Bring a parsed file up to the current schema version
+export function migrateScenarioFile(file: Record<string, unknown>): Record<string, unknown> {
+    let current = file;
+    let version = typeof current.schemaVersion === 'number' ? current.schemaVersion : 0;
+    while (version < EXPORT_SCHEMA_VERSION && MIGRATIONS[version]) {
+        current = MIGRATIONS[version](current);
+        version = current.schemaVersion as number;
+    }
+    return current;
+}
+
+// Parse, migrate and validate a scenario file's text
+export function parseScenarioFile(text: string): ImportResult {
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(text);
+    } catch {
+        return { ok: false, errors: ['File is not valid JSON'] };
+    }
+    if (!isPlainObject(parsed)) {
+        return { ok: false, errors: ['File must contain a JSON object'] };
+    }
+    return readScenario(parsed);
+}
+
+// Parse a batch file: a JSON list of scenario files. Inputs a scenario leaves out are
+// taken from base, so a batch can list only what differs between runs.
+export function parseScenarioBatch(text: string, base: Partial<CalculatorInputs> = {}): BatchResult {
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(text);
+    } catch {
+        return { ok: false, errors: ['File is not valid JSON'] };
+    }
+    if (!Array.isArray(parsed) || parsed.length === 0) {
+        return { ok: false, errors: ['File must contain a non-empty JSON list of scenarios'] };
+    }
+
+    const scenarios: ScenarioFile[] = [];
+    const errors: string[] = [];
+    const warnings: string[] = [];
+    parsed.forEach((entry, index) => {
+        const label = isPlainObject(entry) && typeof entry.name === 'string'
+            ? `Scenario ${index + 1} (${entry.name})`
+            : `Scenario ${index + 1}`;
+        if (!isPlainObject(entry)) {
+            errors.push(`${label} must be a JSON object`);
+            return;
+        }
+        const result = readScenario(entry, base);
+        if (result.ok) {
+            scenarios.push(result.scenario);
+            warnings.push(...result.warnings.map(warning => `${label}: ${warning}`));
+        } else {
+            errors.push(...result.errors.map(error => `${label}: ${error}`));
+        }
+    });
+
+    return errors.length > 0 ? { ok: false, errors } : { ok: true, scenarios, warnings };
+}
+
+// Migrate and validate one parsed scenario
+function readScenario(parsed: Record<string, unknown>, base?: Partial<CalculatorInputs>): ImportResult {
+    const version = parsed.schemaVersion;
+    if (typeof version === 'number' && version > EXPORT_SCHEMA_VERSION) {
+        return {
+            ok: false,
+            errors: [`File uses schema version ${version}; this page reads up to version ${EXPORT_SCHEMA_VERSION}`],
+        };
+    }
+
+    const file = migrateScenarioFile(parsed);
+    const errors: string[] = [];
+
+    if (!checkObject(file, FILE_SCHEMA, 'file', errors)) {
+        return { ok: false, errors };
+    }
+    const merged = base && isPlainObject(file.inputs) ? { ...base, ...file.inputs } : file.inputs;
+    errors.push(...checkInputsShape(merged));
+
+    const years = file.years as number | undefined;
+    if (years !== undefined && !isValidHorizon(years)) {
+        errors.push(`years must be ${HORIZON_RULE}`);
+    }
+    if (errors.length > 0) {
+        return { ok: false, errors };
+    }
+
+    // Out-of-range values use the same rules as the form
+    const inputs = merged as CalculatorInputs;
+    const issues = validateInputs(inputs);
+    const rangeErrors = issues.filter(i => i.severity === 'error').map(i => `inputs.${i.field}: ${i.message}`);
+    if (rangeErrors.length > 0) {
+        return { ok: false, errors: rangeErrors };
+    }
+
+    return {
+        ok: true,
+        scenario: {
+            schemaVersion: EXPORT_SCHEMA_VERSION,
+            name: file.name as string | undefined,
+            years,
+            inputs,
+        },
+        warnings: issues.map(i => `inputs.${i.field}: ${i.message}`),
+    };
+}
@@ -0,0 +1,88 @@
+import {
+    deleteScenario,
+    importScenarios,
+    loadScenarios,
+    saveScenario,
+    ScenarioStorage,
+    setScenarioVisible,
+    summarizeScenario,
+} from './scenarios';
+import { decodeState, encodeState } from './urlcodec';
+import { CLI_DEFAULT_INPUTS } from './commandline';
+
+function memoryStorage(): ScenarioStorage {
+    const items = new Map<string, string>();
+    return {
+        getItem: (key: string) => items.get(key) ?? null,
+        setItem: (key: string, value: string) => {
+            items.set(key, value);
+        },
+    };
+}
+
+describe('saved scenarios', () => {
+    const inputs = CLI_DEFAULT_INPUTS;
+
+    it('saves, replaces by name and deletes', () => {
+        const storage = memoryStorage();
+
+        saveScenario(storage, 'Sunnyvale condo', inputs);
+        saveScenario(storage, 'Oakland SFH', { ...inputs, purchasePrice: 1100000 });
+        saveScenario(storage, ' Sunnyvale condo ', { ...inputs, hoaMonthly: 600 });
+
+        const scenarios = loadScenarios(storage);
+        expect(scenarios.map(s => s.name)).toEqual(['Sunnyvale condo', 'Oakland SFH']);
+        expect(scenarios[0].inputs.hoaMonthly).toBe(600);
+        expect(scenarios[0].visible).toBe(true);
+
+        const remaining = deleteScenario(storage, scenarios[0].id);
+        expect(remaining.map(s => s.name)).toEqual(['Oakland SFH']);
+    });
+
+    it('persists chart visibility', () => {
+        const storage = memoryStorage();
+        const [scenario] = saveScenario(storage, 'Sunnyvale condo', inputs);
+
+        setScenarioVisible(storage, scenario.id, false);
+        expect(loadScenarios(storage)[0].visible).toBe(false);
+    });
+
+    it('keeps a same-named saved scenario when a link is opened', () => {
+        const storage = memoryStorage();
+        saveScenario(storage, 'Sunnyvale condo', inputs);
+
+        const shared = decodeState(encodeState({
+            inputs,
+            years: 10,
+            scenarios: [
+                { name: 'Sunnyvale condo', visible: false, inputs: { ...inputs, hoaMonthly: 600 } },
+                { name: 'Oakland SFH', visible: true, inputs: { ...inputs, purchasePrice: 1100000 } },
+            ],
+        }))!;
+        importScenarios(storage, shared.scenarios);
+        // Opening the same link again adds nothing more
+        importScenarios(storage, shared.scenarios);
+
+        const scenarios = loadScenarios(storage);
+        expect(scenarios.map(s => s.name)).toEqual([
+            'Sunnyvale condo',
+            'Sunnyvale condo (shared)',
+            'Oakland SFH',
+        ]);
+        expect(scenarios[0].inputs).toEqual(inputs);
+        expect(scenarios[1].inputs.hoaMonthly).toBe(600);
+        expect(scenarios[1].visible).toBe(false);
+    });
+
+    it('ignores corrupt storage', () => {
+        const storage = memoryStorage();
+        storage.setItem('rentvsbuy.scenarios', '{not json');
+        expect(loadScenarios(storage)).toEqual([]);
+    });
+
+    it('summarizes final net worths at the horizon', () => {
+        const summary = summarizeScenario(inputs, 10);
+        expect(summary.finalBuyNetWorth).toBeGreaterThan(0);
+        expect(summary.finalRentNetWorth).toBeGreaterThan(0);
+    });
+});
@@ -0,0 +1,161 @@
+// Saved named scenarios for side-by-side comparison
+
+import { calculateNetWorth, CalculatorInputs, findCrossoverYear } from './calculator.js';
+
+export interface SavedScenario {
+    id: string;
+    name: string;
+    inputs: CalculatorInputs;
+    visible: boolean; // Overlaid on the chart
+    savedAt: string; // ISO timestamp
+}
+
+export interface ScenarioSummary {
+    finalBuyNetWorth: number;
+    finalRentNetWorth: number;
+    crossoverYear: number | null;
+}
+
+// The subset of Storage we use, so tests can pass an in-memory store
+export type ScenarioStorage = Pick<Storage, 'getItem' | 'setItem'>;
+
+const STORAGE_KEY = 'rentvsbuy.scenarios';
+
+// Distinct from the live Buy (blue) and Rent (red) lines
+export const SCENARIO_COLORS = ['#16a34a', '#9333ea', '#ea580c', '#0891b2', '#ca8a04', '#db2777'];
+
+export function scenarioColor(index: number): string {
+    return SCENARIO_COLORS[index % SCENARIO_COLORS.length];
+}
+
+// Read saved scenarios, ignoring anything malformed
+export function loadScenarios(storage: ScenarioStorage): SavedScenario[] {
+    const raw = storage.getItem(STORAGE_KEY);
+    if (!raw) return [];
+
+    try {
+        const parsed = JSON.parse(raw);
+        return Array.isArray(parsed)
+            ? parsed.filter(s => s && typeof s.name === 'string' && s.inputs)
+            : [];
+    } catch {
+        return [];
+    }
+}
+
+function storeScenarios(storage: ScenarioStorage, scenarios: SavedScenario[]): void {
+    storage.setItem(STORAGE_KEY, JSON.stringify(scenarios));
+}
+
+// Save inputs under a name, replacing any scenario with the same name
+export function saveScenario(
+    storage: ScenarioStorage,
+    name: string,
+    inputs: CalculatorInputs
+): SavedScenario[] {
+    const trimmed = name.trim();
+    const scenarios = loadScenarios(storage);
+    const existing = scenarios.find(s => s.name === trimmed);
+    const savedAt = new Date().toISOString();
+
+    if (existing) {
+        existing.inputs = { ...inputs };
+        existing.savedAt = savedAt;
+    } else {
+        scenarios.push({
+            id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+            name: trimmed,
+            inputs: { ...inputs },
+            visible: true,
+            savedAt,
+        });
+    }
+
+    storeScenarios(storage, scenarios);
+    return scenarios;
+}
+
+// The name itself if free, else the first free of "name (shared)", "name (shared 2)", ...
+export function unusedName(name: string, isTaken: (name: string) => boolean): string {
+    const trimmed = name.trim();
+    if (!isTaken(trimmed)) return trimmed;
+
+    for (let n = 1; ; n++) {
+        const candidate = n === 1 ? `${trimmed} (shared)` : `${trimmed} (shared ${n})`;
+        if (!isTaken(candidate)) return candidate;
+    }
+}
+
+// Field by field, so key order and absent-vs-undefined fields don't matter
+function sameInputs(a: CalculatorInputs, b: CalculatorInputs): boolean {
+    const fields = new Set([...Object.keys(a), ...Object.keys(b)]) as Set<keyof CalculatorInputs>;
+    return [...fields].every(field => JSON.stringify(a[field]) === JSON.stringify(b[field]));
+}
+
+// Whether a stored name is the shared name or a copy unusedName made of it
+export function isNameOrSharedCopy(stored: string, name: string): boolean {
+    const trimmed = name.trim();
+    if (stored === trimmed) return true;
+    const suffix = stored.startsWith(trimmed) ? stored.slice(trimmed.length) : '';
+    return /^ \(shared( \d+)?\)$/.test(suffix);
+}
+
+// Add scenarios from a shared link without touching the stored ones. A scenario already
+// stored under the same name (or a copy of it) with the same inputs is skipped; other name
+// clashes get a "(shared)" suffix.
+export function importScenarios(
+    storage: ScenarioStorage,
+    shared: Array<Pick<SavedScenario, 'name' | 'visible' | 'inputs'>>
+): SavedScenario[] {
+    const scenarios = loadScenarios(storage);
+    const savedAt = new Date().toISOString();
+
+    for (const { name, visible, inputs } of shared) {
+        const duplicate = scenarios.some(s =>
+            isNameOrSharedCopy(s.name, name) && sameInputs(s.inputs, inputs)
+        );
+        if (duplicate) continue;
+
+        scenarios.push({
+            id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+            name: unusedName(name, candidate => scenarios.some(s => s.name === candidate)),
+            inputs: { ...inputs },
+            visible,
+            savedAt,
+        });
+    }
+
+    storeScenarios(storage, scenarios);
+    return scenarios;
+}
+
+export function deleteScenario(storage: ScenarioStorage, id: string): SavedScenario[] {
+    const scenarios = loadScenarios(storage).filter(s => s.id !== id);
+    storeScenarios(storage, scenarios);
+    return scenarios;
+}
+
+export function setScenarioVisible(
+    storage: ScenarioStorage,
+    id: string,
+    visible: boolean
+): SavedScenario[] {
+    const scenarios = loadScenarios(storage);
+    const scenario = scenarios.find(s => s.id === id);
+    if (scenario) {
+        scenario.visible = visible;
+        storeScenarios(storage, scenarios);
+    }
+    return scenarios;
+}
+
+// Final net worths and crossover for a scenario at the given horizon
+export function summarizeScenario(inputs: CalculatorInputs, years: number): ScenarioSummary {
+    const data = calculateNetWorth(inputs, years);
+    const final = data[data.length - 1];
+    return {
+        finalBuyNetWorth: final.buyNetWorth,
+        finalRentNetWorth: final.rentNetWorth,
+        crossoverYear: findCrossoverYear(data),
+    };
+}
@@ -0,0 +1,67 @@
+import { analyzeSensitivity, evaluateOutcome } from './sensitivity';
+import { CLI_DEFAULT_INPUTS } from './commandline';
+
+describe('analyzeSensitivity', () => {
+    const inputs = CLI_DEFAULT_INPUTS;
+
+    it('ranks inputs by how much they move the final gap', () => {
+        const { results } = analyzeSensitivity(inputs, 15);
+
+        expect(results.length).toBe(12);
+        for (let i = 1; i < results.length; i++) {
+            expect(results[i].gapSwing).toBeLessThanOrEqual(results[i - 1].gapSwing);
+        }
+        // A point of appreciation on a $1.5M home outweighs a tenth of a point of property tax
+        const rank = (field: string) => results.findIndex(r => r.field === field);
+        expect(rank('homeAppreciationRate')).toBeLessThan(rank('propertyTaxRate'));
+    });
+
+    it('moves each input in both directions around the base', () => {
+        const { base, results } = analyzeSensitivity(inputs, 10);
+        const appreciation = results.find(r => r.field === 'homeAppreciationRate')!;
+
+        expect(appreciation.lowValue).toBeCloseTo(0.03, 10);
+        expect(appreciation.highValue).toBeCloseTo(0.05, 10);
+        expect(appreciation.low.gap).toBeLessThan(base.gap);
+        expect(appreciation.high.gap).toBeGreaterThan(base.gap);
+    });
+
+    it('floors non-negative inputs at zero', () => {
+        const { results } = analyzeSensitivity(inputs, 10, {
+            hoaMonthly: { type: 'absolute', amount: 200 },
+        });
+        expect(results).toHaveLength(1);
+        expect(results[0].lowValue).toBe(0);
+        expect(results[0].highValue).toBe(200);
+    });
+
+    it('can rank by crossover year instead', () => {
+        const { results } = analyzeSensitivity(inputs, 30, undefined, 'crossover');
+        for (let i = 1; i < results.length; i++) {
+            expect(results[i].crossoverSwing).toBeLessThanOrEqual(results[i - 1].crossoverSwing);
+        }
+    });
+});
+
+describe('evaluateOutcome', () => {
+    it('uses the horizon as the crossover when buying never wins', () => {
+        const outcome = evaluateOutcome({
+            purchasePrice: 1500000,
+            downPaymentPercent: 20,
+            mortgageRate: 0.08,
+            monthlyRent: 2000,
+            homeAppreciationRate: 0,
+            rentGrowthRate: 0,
+            investmentReturnRate: 0.07,
+            propertyTaxRate: 0.0115,
+            hoaMonthly: 0,
+            maintenanceRate: 0.01,
+            closingCostRate: 0.025,
+            sellingCostRate: 0.06,
+            insuranceAnnual: 0,
+        }, 10);
+
+        expect(outcome.gap).toBeLessThan(0);
+        expect(outcome.crossoverYear).toBe(10);
+    });
+});
@@ -0,0 +1,145 @@
+// Sensitivity analysis: which inputs move the outcome the most
+
+import { calculateNetWorth, CalculatorInputs, findCrossoverYear } from './calculator.js';
+
+export type SensitivityField =
+    | 'purchasePrice'
+    | 'downPaymentPercent'
+    | 'mortgageRate'
+    | 'monthlyRent'
+    | 'homeAppreciationRate'
+    | 'rentGrowthRate'
+    | 'investmentReturnRate'
+    | 'propertyTaxRate'
+    | 'hoaMonthly'
+    | 'maintenanceRate'
+    | 'closingCostRate'
+    | 'sellingCostRate';
+
+// How far to move an input in each direction
+// 'relative': fraction of the base value (0.1 = ±10%)
+// 'absolute': same units as the input (0.01 = ±1 percentage point for rates)
+export interface SensitivityStep {
+    type: 'relative' | 'absolute';
+    amount: number;
+}
+
+export const SENSITIVITY_LABELS: Record<SensitivityField, string> = {
+    purchasePrice: 'Purchase Price',
+    downPaymentPercent: 'Down Payment',
+    mortgageRate: 'Mortgage Rate',
+    monthlyRent: 'Monthly Rent',
+    homeAppreciationRate: 'Home Appreciation',
+    rentGrowthRate: 'Rent Growth',
+    investmentReturnRate: 'Investment Return',
+    propertyTaxRate: 'Property Tax Rate',
+    hoaMonthly: 'HOA',
+    maintenanceRate: 'Maintenance',
+    closingCostRate: 'Closing Costs',
+    sellingCostRate: 'Selling Costs',
+};
+
+export const DEFAULT_SENSITIVITY_STEPS: Record<SensitivityField, SensitivityStep> = {
+    purchasePrice: { type: 'relative', amount: 0.1 },
+    downPaymentPercent: { type: 'absolute', amount: 5 },
+    mortgageRate: { type: 'absolute', amount: 0.01 },
+    monthlyRent: { type: 'relative', amount: 0.1 },
+    homeAppreciationRate: { type: 'absolute', amount: 0.01 },
+    rentGrowthRate: { type: 'absolute', amount: 0.01 },
+    investmentReturnRate: { type: 'absolute', amount: 0.01 },
+    propertyTaxRate: { type: 'absolute', amount: 0.001 },
+    hoaMonthly: { type: 'absolute', amount: 200 },
+    maintenanceRate: { type: 'absolute', amount: 0.005 },
+    closingCostRate: { type: 'absolute', amount: 0.01 },
+    sellingCostRate: { type: 'absolute', amount: 0.01 },
+};
+
+// Fields that can legitimately go negative (everything else floors at 0)
+const SIGNED_FIELDS: SensitivityField[] = [
+    'homeAppreciationRate',
+    'rentGrowthRate',
+    'investmentReturnRate',
+];
+
+export interface Outcome {
+    gap: number; // Final buy net worth minus rent net worth
+    crossoverYear: number; // Year buying pulls ahead (0 if from the start, horizon if never)
+}
+
+export interface SensitivityResult {
+    field: SensitivityField;
+    label: string;
+    lowValue: number;
+    highValue: number;
+    low: Outcome;
+    high: Outcome;
+    gapSwing: number; // |high.gap - low.gap|
+    crossoverSwing: number; // |high.crossoverYear - low.crossoverYear|
+}
+
+export interface SensitivityAnalysis {
+    base: Outcome;
+    results: SensitivityResult[];
+}
+
+// Evaluate the final gap and an effective crossover year for one set of inputs
+export function evaluateOutcome(inputs: CalculatorInputs, years: number): Outcome {
+    const data = calculateNetWorth(inputs, years);
+    const final = data[data.length - 1];
+    const gap = final.buyNetWorth - final.rentNetWorth;
+    const crossover = findCrossoverYear(data);
+
+    let crossoverYear: number;
+    if (crossover !== null) {
+        crossoverYear = crossover;
+    } else {
+        crossoverYear = gap > 0 ? 0 : years;
+    }
+
+    return { gap, crossoverYear };
+}
+
+function applyStep(base: number, step: SensitivityStep, direction: 1 | -1): number {
+    const delta = step.type === 'relative' ? Math.abs(base) * step.amount : step.amount;
+    return base + direction * delta;
+}
+
+// Move each input down and up by its step, and rank inputs by how much they move the result
+export function analyzeSensitivity(
+    inputs: CalculatorInputs,
+    years: number,
+    steps: Partial<Record<SensitivityField, SensitivityStep>> = DEFAULT_SENSITIVITY_STEPS,
+    rankBy: 'gap' | 'crossover' = 'gap'
+): SensitivityAnalysis {
+    const base = evaluateOutcome(inputs, years);
+    const results: SensitivityResult[] = [];
+
+    for (const [field, step] of Object.entries(steps) as Array<[SensitivityField, SensitivityStep]>) {
+        const floor = SIGNED_FIELDS.includes(field) ? -Infinity : 0;
+        const lowValue = Math.max(floor, applyStep(inputs[field], step, -1));
+        let highValue = applyStep(inputs[field], step, 1);
+        if (field === 'downPaymentPercent') {
+            highValue = Math.min(100, highValue);
+        }
+
+        const low = evaluateOutcome({ ...inputs, [field]: lowValue }, years);
+        const high = evaluateOutcome({ ...inputs, [field]: highValue }, years);
+
+        results.push({
+            field,
+            label: SENSITIVITY_LABELS[field],
+            lowValue,
+            highValue,
+            low,
+            high,
+            gapSwing: Math.abs(high.gap - low.gap),
+            crossoverSwing: Math.abs(high.crossoverYear - low.crossoverYear),
+        });
+    }
+
+    results.sort((a, b) =>
+        rankBy === 'gap' ? b.gapSwing - a.gapSwing : b.crossoverSwing - a.crossoverSwing
+    );
+
+    return { base, results };
+}
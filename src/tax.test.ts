@@ -0,0 +1,92 @@
+import { calculateSaleTax, calculateTaxSavings, TaxProfile } from './tax';
+
+describe('calculateTaxSavings', () => {
+    const profile: TaxProfile = {
+        filingStatus: 'married',
+        federalTaxRate: 0.24,
+        stateTaxRate: 0.093,
+        otherItemizedDeductions: 0,
+        otherSaltTaxes: 0,
+    };
+
+    it('returns zero when rates are zero', () => {
+        const savings = calculateTaxSavings(
+            { ...profile, federalTaxRate: 0, stateTaxRate: 0 },
+            { mortgageInterest: 50000, averageMortgageBalance: 700000, propertyTax: 10000 }
+        );
+        expect(savings.total).toBe(0);
+    });
+
+    it('only counts deductions above the standard deduction', () => {
+        // Federal: $40k itemized vs $32.2k standard → $7.8k × 24%
+        const savings = calculateTaxSavings(profile, {
+            mortgageInterest: 30000,
+            averageMortgageBalance: 500000,
+            propertyTax: 10000,
+        });
+        expect(savings.federal).toBeCloseTo(7800 * 0.24, 2);
+        expect(savings.itemizesFederal).toBe(true);
+    });
+
+    it('takes the standard deduction when itemizing does not help', () => {
+        const savings = calculateTaxSavings(profile, {
+            mortgageInterest: 10000,
+            averageMortgageBalance: 200000,
+            propertyTax: 5000,
+        });
+        expect(savings.federal).toBe(0);
+        expect(savings.itemizesFederal).toBe(false);
+    });
+
+    it('limits deductible interest to $750k of acquisition debt federally', () => {
+        const savings = calculateTaxSavings(profile, {
+            mortgageInterest: 90000,
+            averageMortgageBalance: 1500000,
+            propertyTax: 0,
+        });
+        // Half the interest is deductible: $45k - $32.2k standard
+        expect(savings.federal).toBeCloseTo((45000 - 32200) * 0.24, 2);
+        // California allows $1M: $60k - $11,412 standard
+        expect(savings.state).toBeCloseTo((60000 - 11412) * 0.093, 2);
+    });
+
+    it('gives no federal property tax benefit once state income tax fills the SALT cap', () => {
+        const housing = { mortgageInterest: 0, averageMortgageBalance: 0, propertyTax: 20000 };
+        const capped = calculateTaxSavings(
+            { ...profile, otherSaltTaxes: 50000, otherItemizedDeductions: 10000 },
+            housing
+        );
+        expect(capped.federal).toBe(0);
+        // California has no SALT cap
+        expect(capped.state).toBeGreaterThan(0);
+    });
+});
+
+describe('calculateSaleTax', () => {
+    const sale = { salePrice: 2500000, sellingCosts: 150000, costBasis: 1300000, yearsOwned: 15 };
+
+    it('excludes $500k of gain for a married couple and taxes the rest', () => {
+        const tax = calculateSaleTax(sale, 'married', 0.15, 0.093);
+        expect(tax.gain).toBe(1050000);
+        expect(tax.exclusion).toBe(500000);
+        expect(tax.federal).toBeCloseTo(550000 * 0.15, 6);
+        expect(tax.state).toBeCloseTo(550000 * 0.093, 6);
+        expect(tax.total).toBeCloseTo(tax.federal + tax.state, 6);
+    });
+
+    it('excludes $250k filing single', () => {
+        expect(calculateSaleTax(sale, 'single', 0.15, 0.093).taxableGain).toBe(800000);
+    });
+
+    it('gives no exclusion before two years of ownership', () => {
+        const tax = calculateSaleTax({ ...sale, salePrice: 1500000, sellingCosts: 90000, yearsOwned: 1 }, 'married', 0.15, 0);
+        expect(tax.exclusion).toBe(0);
+        expect(tax.taxableGain).toBe(110000);
+    });
+
+    it('owes nothing on a loss', () => {
+        const tax = calculateSaleTax({ ...sale, salePrice: 1200000 }, 'married', 0.2, 0.133);
+        expect(tax.gain).toBe(0);
+        expect(tax.total).toBe(0);
+    });
+});
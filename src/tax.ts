@@ -0,0 +1,123 @@
+// Federal and California income tax rules for homeowner deductions and home sales
+
+export type FilingStatus = 'single' | 'married';
+
+// Federal rules (2026 tax year). Married assumes filing jointly.
+export const FEDERAL_TAX_RULES = {
+    standardDeduction: { single: 16100, married: 32200 },
+    saltCap: { single: 40400, married: 40400 },
+    mortgageDebtLimit: { single: 750000, married: 750000 }, // Acquisition debt
+    // Section 121: gain excluded on a main home owned and lived in 2 of the last 5 years
+    // (California conforms)
+    saleGainExclusion: { single: 250000, married: 500000 },
+    saleExclusionYears: 2,
+} as const;
+
+// California does not cap SALT and keeps the $1M acquisition-debt limit
+export const CA_TAX_RULES = {
+    standardDeduction: { single: 5706, married: 11412 },
+    mortgageDebtLimit: { single: 1000000, married: 1000000 },
+} as const;
+
+export interface TaxProfile {
+    filingStatus: FilingStatus;
+    federalTaxRate: number; // Marginal rate as decimal
+    stateTaxRate: number; // Marginal rate as decimal
+    otherItemizedDeductions: number; // Annual, excluding SALT and mortgage interest
+    otherSaltTaxes: number; // Annual state income tax etc. that shares the SALT cap
+}
+
+export interface HousingDeductions {
+    mortgageInterest: number; // Interest paid during the year
+    averageMortgageBalance: number;
+    propertyTax: number;
+}
+
+export interface TaxSavings {
+    federal: number;
+    state: number;
+    total: number;
+    itemizesFederal: boolean;
+    itemizesState: boolean;
+}
+
+// Interest on debt above the acquisition limit is not deductible (IRS Pub 936 average-balance method)
+function deductibleInterest(housing: HousingDeductions, debtLimit: number): number {
+    if (housing.averageMortgageBalance <= debtLimit) {
+        return housing.mortgageInterest;
+    }
+    return housing.mortgageInterest * (debtLimit / housing.averageMortgageBalance);
+}
+
+// Calculate the extra income tax saved by owning, compared to the same household renting.
+// Savings only exist to the extent itemizing beats the standard deduction.
+export function calculateTaxSavings(profile: TaxProfile, housing: HousingDeductions): TaxSavings {
+    const status = profile.filingStatus;
+
+    // Federal: property tax shares the SALT cap with state income tax
+    const federalStandard = FEDERAL_TAX_RULES.standardDeduction[status];
+    const saltCap = FEDERAL_TAX_RULES.saltCap[status];
+    const federalRenter =
+        Math.min(saltCap, profile.otherSaltTaxes) + profile.otherItemizedDeductions;
+    const federalOwner =
+        Math.min(saltCap, profile.otherSaltTaxes + housing.propertyTax) +
+        deductibleInterest(housing, FEDERAL_TAX_RULES.mortgageDebtLimit[status]) +
+        profile.otherItemizedDeductions;
+    const federalDeductionGain =
+        Math.max(federalStandard, federalOwner) - Math.max(federalStandard, federalRenter);
+
+    // California: no SALT cap, and state income tax itself is not deductible
+    const stateStandard = CA_TAX_RULES.standardDeduction[status];
+    const stateRenter = profile.otherItemizedDeductions;
+    const stateOwner =
+        housing.propertyTax +
+        deductibleInterest(housing, CA_TAX_RULES.mortgageDebtLimit[status]) +
+        profile.otherItemizedDeductions;
+    const stateDeductionGain =
+        Math.max(stateStandard, stateOwner) - Math.max(stateStandard, stateRenter);
+
+    const federal = federalDeductionGain * profile.federalTaxRate;
+    const state = stateDeductionGain * profile.stateTaxRate;
+
+    return {
+        federal,
+        state,
+        total: federal + state,
+        itemizesFederal: federalOwner > federalStandard,
+        itemizesState: stateOwner > stateStandard,
+    };
+}
+
+export interface HomeSale {
+    salePrice: number;
+    sellingCosts: number;
+    costBasis: number; // Purchase price plus capitalized purchase costs
+    yearsOwned: number;
+}
+
+export interface SaleTax {
+    gain: number;
+    exclusion: number; // Section 121 amount used
+    taxableGain: number;
+    federal: number;
+    state: number;
+    total: number;
+}
+
+// Capital gains tax on selling the home. California taxes gains as ordinary income, so
+// the state marginal rate applies; losses on a home are not deductible.
+export function calculateSaleTax(
+    sale: HomeSale,
+    filingStatus: FilingStatus,
+    federalCapitalGainsRate: number,
+    stateTaxRate: number
+): SaleTax {
+    const gain = Math.max(0, sale.salePrice - sale.sellingCosts - sale.costBasis);
+    const eligible = sale.yearsOwned >= FEDERAL_TAX_RULES.saleExclusionYears;
+    const exclusion = eligible ? Math.min(gain, FEDERAL_TAX_RULES.saleGainExclusion[filingStatus]) : 0;
+    const taxableGain = gain - exclusion;
+    const federal = taxableGain * federalCapitalGainsRate;
+    const state = taxableGain * stateTaxRate;
+
+    return { gain, exclusion, taxableGain, federal, state, total: federal + state };
+}
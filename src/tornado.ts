@@ -0,0 +1,115 @@
+// Tornado chart of the sensitivity analysis
+
+import { SensitivityAnalysis, SensitivityResult, SensitivityField } from './sensitivity.js';
+import { currencyAxisTicks, DollarMode, DOLLAR_MODE_LABELS, formatCurrency } from './format.js';
+
+declare const Chart: any;
+
+let tornadoChart: any;
+
+// Rates are stored as decimals; show them as percentages
+const PERCENT_FIELDS: SensitivityField[] = [
+    'mortgageRate',
+    'homeAppreciationRate',
+    'rentGrowthRate',
+    'investmentReturnRate',
+    'propertyTaxRate',
+    'maintenanceRate',
+    'closingCostRate',
+    'sellingCostRate',
+];
+
+function formatInputValue(field: SensitivityField, value: number): string {
+    if (PERCENT_FIELDS.includes(field)) {
+        return `${(value * 100).toFixed(2)}%`;
+    }
+    if (field === 'downPaymentPercent') {
+        return `${value.toFixed(0)}%`;
+    }
+    return formatCurrency(value);
+}
+
+// Each bar spans from the base gap to the gap with the input moved down (or up)
+function barData(analysis: SensitivityAnalysis, pick: (r: SensitivityResult) => number) {
+    return analysis.results.map(r => [analysis.base.gap, pick(r)]);
+}
+
+export function renderTornado(canvas: HTMLCanvasElement, analysis: SensitivityAnalysis, mode: DollarMode): void {
+    const labels = analysis.results.map(r => r.label);
+    const lowData = barData(analysis, r => r.low.gap);
+    const highData = barData(analysis, r => r.high.gap);
+
+    if (tornadoChart) {
+        tornadoChart.data.labels = labels;
+        tornadoChart.data.datasets[0].data = lowData;
+        tornadoChart.data.datasets[1].data = highData;
+        tornadoChart.options.plugins.tooltip.callbacks.label = tooltipLabel(analysis, mode);
+        tornadoChart.options.scales.x.title.text = axisTitle(mode);
+        tornadoChart.options.scales.x.ticks.callback = currencyAxisTicks(mode);
+        tornadoChart.update();
+        return;
+    }
+
+    tornadoChart = new Chart(canvas.getContext('2d')!, {
+        type: 'bar',
+        data: {
+            labels,
+            datasets: [
+                {
+                    label: 'Input lower',
+                    data: lowData,
+                    backgroundColor: 'rgba(220, 38, 38, 0.7)',
+                },
+                {
+                    label: 'Input higher',
+                    data: highData,
+                    backgroundColor: 'rgba(37, 99, 235, 0.7)',
+                },
+            ],
+        },
+        options: {
+            indexAxis: 'y',
+            responsive: true,
+            maintainAspectRatio: false,
+            plugins: {
+                legend: {
+                    position: 'top',
+                },
+                tooltip: {
+                    callbacks: {
+                        label: tooltipLabel(analysis, mode),
+                    },
+                },
+            },
+            scales: {
+                x: {
+                    title: {
+                        display: true,
+                        text: axisTitle(mode),
+                    },
+                    ticks: {
+                        callback: currencyAxisTicks(mode),
+                    },
+                },
+                y: {
+                    stacked: true,
+                },
+            },
+        },
+    });
+}
+
+function axisTitle(mode: DollarMode): string {
+    return `Final buy minus rent net worth (${DOLLAR_MODE_LABELS[mode]})`;
+}
+
+function tooltipLabel(analysis: SensitivityAnalysis, mode: DollarMode) {
+    return function (context: any) {
+        const result = analysis.results[context.dataIndex];
+        const isLow = context.datasetIndex === 0;
+        const value = isLow ? result.lowValue : result.highValue;
+        const outcome = isLow ? result.low : result.high;
+        return `${result.label} ${formatInputValue(result.field, value)}: ` +
+            `${formatCurrency(outcome.gap, mode)} gap, crossover year ${outcome.crossoverYear.toFixed(1)}`;
+    };
+}
@@ -0,0 +1,59 @@
+import {
+    calculatePurchaseCosts,
+    calculateSaleCosts,
+    calculateTransferTax,
+    DEFAULT_TRANSACTION_COSTS,
+    TransactionCosts,
+} from './transactions';
+
+describe('calculateTransferTax', () => {
+    it('charges only the county rate outside a taxing city', () => {
+        expect(calculateTransferTax(1000000, 'none')).toBeCloseTo(1100, 6);
+    });
+
+    it('taxes the whole price at the bracket it falls in, plus the county rate', () => {
+        expect(calculateTransferTax(250000, 'oakland')).toBeCloseTo(250000 * (0.01 + 0.0011), 6);
+        expect(calculateTransferTax(1500000, 'oakland')).toBeCloseTo(1500000 * (0.015 + 0.0011), 6);
+        expect(calculateTransferTax(2500000, 'berkeley')).toBeCloseTo(2500000 * (0.025 + 0.0011), 6);
+    });
+
+    it('uses San Francisco\'s own table in place of the county rate', () => {
+        expect(calculateTransferTax(1500000, 'san-francisco')).toBeCloseTo(1500000 * 0.0075, 6);
+        expect(calculateTransferTax(6000000, 'san-francisco')).toBeCloseTo(6000000 * 0.0225, 6);
+    });
+
+    it('adds San Jose\'s Measure E tax above $2M', () => {
+        expect(calculateTransferTax(1900000, 'san-jose')).toBeCloseTo(1900000 * (0.0033 + 0.0011), 6);
+        expect(calculateTransferTax(3000000, 'san-jose')).toBeCloseTo(3000000 * (0.0108 + 0.0011), 6);
+    });
+});
+
+describe('purchase and sale costs', () => {
+    const costs: TransactionCosts = {
+        ...DEFAULT_TRANSACTION_COSTS,
+        city: 'oakland',
+        buyerTransferTaxShare: 0.5,
+        buyerAgentRate: 0.02,
+        loanPoints: 0.01,
+    };
+
+    it('itemizes what the buyer pays', () => {
+        const purchase = calculatePurchaseCosts(1000000, 800000, costs);
+        expect(purchase.transferTax).toBeCloseTo(1000000 * 0.0161 * 0.5, 6);
+        expect(purchase.commission).toBeCloseTo(20000, 6);
+        expect(purchase.titleEscrow).toBeCloseTo(5000, 6);
+        expect(purchase.loanFees).toBeCloseTo(8000 + 1500, 6);
+        expect(purchase.total).toBeCloseTo(8050 + 20000 + 5000 + 9500, 6);
+    });
+
+    it('charges no lender fees on an all-cash purchase', () => {
+        expect(calculatePurchaseCosts(1000000, 0, costs).loanFees).toBe(0);
+    });
+
+    it('leaves the seller the rest of the transfer tax plus commission', () => {
+        const sale = calculateSaleCosts(1000000, costs);
+        expect(sale.transferTax).toBeCloseTo(1000000 * 0.0161 * 0.5, 6);
+        expect(sale.commission).toBeCloseTo(50000, 6);
+        expect(sale.loanFees).toBe(0);
+    });
+});
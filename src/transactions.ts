@@ -0,0 +1,148 @@
+// Itemized purchase and sale costs: transfer taxes, commissions, title/escrow and loan fees
+
+// Cities with their own transfer tax (rates as of 2025; thresholds are not indexed here)
+export type TransferTaxCity =
+    | 'none'
+    | 'san-francisco'
+    | 'oakland'
+    | 'berkeley'
+    | 'richmond'
+    | 'hayward'
+    | 'san-jose'
+    | 'san-mateo'
+    | 'palo-alto';
+
+// The whole price is taxed at the rate of the highest bracket it exceeds
+interface TransferTaxBracket {
+    over: number;
+    rate: number;
+}
+
+export interface CityTransferTax {
+    label: string;
+    brackets: TransferTaxBracket[]; // Ascending by threshold
+    replacesCounty?: boolean; // San Francisco is a city and county with one tax
+}
+
+// Documentary transfer tax of every Bay Area county: $1.10 per $1,000
+export const COUNTY_TRANSFER_TAX_RATE = 0.0011;
+
+export const CITY_TRANSFER_TAXES: Record<TransferTaxCity, CityTransferTax> = {
+    'none': { label: 'County only', brackets: [] },
+    'san-francisco': {
+        label: 'San Francisco',
+        replacesCounty: true,
+        brackets: [
+            { over: 0, rate: 0.005 },
+            { over: 250000, rate: 0.0068 },
+            { over: 1000000, rate: 0.0075 },
+            { over: 5000000, rate: 0.0225 },
+            { over: 10000000, rate: 0.055 },
+            { over: 25000000, rate: 0.06 },
+        ],
+    },
+    'oakland': {
+        label: 'Oakland',
+        brackets: [
+            { over: 0, rate: 0.01 },
+            { over: 300000, rate: 0.015 },
+            { over: 2000000, rate: 0.0175 },
+            { over: 5000000, rate: 0.025 },
+        ],
+    },
+    'berkeley': {
+        label: 'Berkeley',
+        brackets: [
+            { over: 0, rate: 0.015 },
+            { over: 1600000, rate: 0.025 },
+        ],
+    },
+    'richmond': {
+        label: 'Richmond',
+        brackets: [
+            { over: 0, rate: 0.007 },
+            { over: 1000000, rate: 0.0125 },
+            { over: 3000000, rate: 0.025 },
+            { over: 10000000, rate: 0.03 },
+        ],
+    },
+    'hayward': { label: 'Hayward', brackets: [{ over: 0, rate: 0.0085 }] },
+    'san-jose': {
+        label: 'San Jose',
+        brackets: [
+            { over: 0, rate: 0.0033 },
+            { over: 2000000, rate: 0.0108 }, // Measure E adds 0.75% over $2M
+            { over: 5000000, rate: 0.0133 },
+            { over: 10000000, rate: 0.0183 },
+        ],
+    },
+    'san-mateo': { label: 'San Mateo', brackets: [{ over: 0, rate: 0.005 }] },
+    'palo-alto': { label: 'Palo Alto', brackets: [{ over: 0, rate: 0.0033 }] },
+};
+
+export interface TransactionCosts {
+    city: TransferTaxCity;
+    buyerTransferTaxShare: number; // Share of transfer tax the buyer pays (decimal); the seller pays the rest
+    listingCommissionRate: number; // Agent commission the seller pays on sale, decimal of sale price
+    buyerAgentRate: number; // Buyer's agent fee the buyer pays at purchase, decimal of price
+    titleEscrowRate: number; // Title insurance and escrow on each side, decimal of price
+    loanPoints: number; // Discount points, decimal of loan amount (1 point = 0.01)
+    lenderFees: number; // Flat origination and underwriting fees
+}
+
+export const DEFAULT_TRANSACTION_COSTS: TransactionCosts = {
+    city: 'none',
+    buyerTransferTaxShare: 0,
+    listingCommissionRate: 0.05,
+    buyerAgentRate: 0,
+    titleEscrowRate: 0.005,
+    loanPoints: 0,
+    lenderFees: 1500,
+};
+
+export interface CostBreakdown {
+    transferTax: number;
+    commission: number;
+    titleEscrow: number;
+    loanFees: number;
+    total: number;
+}
+
+// County plus city transfer tax on a sale price
+export function calculateTransferTax(price: number, city: TransferTaxCity): number {
+    const { brackets, replacesCounty } = CITY_TRANSFER_TAXES[city];
+    const bracket = [...brackets].reverse().find(b => price > b.over);
+    const cityTax = bracket ? price * bracket.rate : 0;
+    return replacesCounty ? cityTax : cityTax + price * COUNTY_TRANSFER_TAX_RATE;
+}
+
+function breakdown(parts: Omit<CostBreakdown, 'total'>): CostBreakdown {
+    return {
+        ...parts,
+        total: parts.transferTax + parts.commission + parts.titleEscrow + parts.loanFees,
+    };
+}
+
+// Buyer's costs at purchase
+export function calculatePurchaseCosts(
+    price: number,
+    loanAmount: number,
+    costs: TransactionCosts
+): CostBreakdown {
+    return breakdown({
+        transferTax: calculateTransferTax(price, costs.city) * costs.buyerTransferTaxShare,
+        commission: price * costs.buyerAgentRate,
+        titleEscrow: price * costs.titleEscrowRate,
+        loanFees: loanAmount * costs.loanPoints + (loanAmount > 0 ? costs.lenderFees : 0),
+    });
+}
+
+// Seller's costs on a sale at the given price
+export function calculateSaleCosts(salePrice: number, costs: TransactionCosts): CostBreakdown {
+    return breakdown({
+        transferTax: calculateTransferTax(salePrice, costs.city) * (1 - costs.buyerTransferTaxShare),
+        commission: salePrice * costs.listingCommissionRate,
+        titleEscrow: salePrice * costs.titleEscrowRate,
+        loanFees: 0,
+    });
+}
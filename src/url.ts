@@ -1,8 +1,28 @@
 // URL state management for sharing scenarios
+//
+// Links are written as a single compact `s=` parameter (see urlcodec.ts). Older links
+// with one readable parameter per field (?price=&down=&rate=...) are still read.
 
-import { InputElements } from './inputs.js';
+import {
+    InputElements,
+    parseRateList,
+    readInputs,
+    setRefinanceRows,
+    writeInputs,
+} from './inputs.js';
+import { ValidationIssue } from './validation.js';
+import { ScenarioFile } from './scenariofile.js';
+import { importScenarios, loadScenarios } from './scenarios.js';
+import { importPresets, loadPresets } from './presets.js';
+import { decodeState, encodeState, SharedState } from './urlcodec.js';
+import { SurplusInvestor } from './calculator.js';
+import { Buydown, LoanType, RefinanceEvent } from './amortization.js';
+import { FilingStatus } from './tax.js';
 
-// URL parameter keys (short for cleaner URLs)
+// Compact encoded state
+const STATE_KEY = 's';
+
+// Legacy parameter keys, one per field
 const URL_KEYS = {
     purchasePrice: 'price',
     downPaymentPercent: 'down',
@@ -10,10 +30,71 @@ const URL_KEYS = {
     monthlyRent: 'rent',
     homeAppreciationRate: 'appreciation',
     rentGrowthRate: 'rentgrowth',
+    // Advanced panel (only present when changed from the default)
+    investmentReturnRate: 'invest',
+    propertyTaxRate: 'ptax',
+    hoaMonthly: 'hoa',
+    maintenanceRate: 'maint',
+    closingCostRate: 'closing',
+    sellingCostRate: 'selling',
+    insuranceAnnual: 'insurance',
+    federalTaxRate: 'fed',
+    stateTaxRate: 'state',
+    otherSaltTaxes: 'salt',
+    otherItemizedDeductions: 'itemized',
+    pmiRate: 'pmi',
+    interestOnlyYears: 'io',
+    armMargin: 'margin',
+    armPeriodicCap: 'pcap',
+    armLifetimeCap: 'lcap',
     years: 'years',
 } as const;
 
+// Non-numeric settings
+const CHOICE_KEYS = {
+    filingStatus: 'filing',
+    investDifference: 'surplus',
+    loanTermYears: 'term',
+    loanType: 'loan',
+    buydown: 'buydown',
+    armInitialYears: 'armfixed',
+    armAdjustmentMonths: 'armadj',
+} as const;
+
+// Expected ARM index path, as a comma-separated list of percentages
+const INDEX_PATH_KEY = 'index';
+
+// Refinances as year_rate_term_cost_cashout, separated by ~ (rate in %)
+const REFINANCE_KEY = 'refi';
+
+const FLAG_KEYS = {
+    pmiCancelAtAppraisal: 'pmiappraisal',
+    applyProp13: 'prop13',
+} as const;
+
+const CHOICES = {
+    filingStatus: ['single', 'married'],
+    investDifference: ['both', 'renter'],
+    loanTermYears: ['30', '20', '15', '10'],
+    loanType: ['fixed', 'arm'],
+    buydown: ['none', '2-1', '1-0'],
+    armInitialYears: ['3', '5', '7', '10'],
+    armAdjustmentMonths: ['12', '6'],
+} as const;
+
 type URLKey = keyof typeof URL_KEYS;
+type ChoiceKey = keyof typeof CHOICE_KEYS;
+type FlagKey = keyof typeof FLAG_KEYS;
+
+// Dollar amounts shown with thousands separators in the form
+const CURRENCY_KEYS: URLKey[] = [
+    'purchasePrice',
+    'monthlyRent',
+    'hoaMonthly',
+    'insuranceAnnual',
+    'otherSaltTaxes',
+    'otherItemizedDeductions',
+];
 
 interface URLState {
     purchasePrice?: number;
@@ -22,7 +103,40 @@ interface URLState {
     monthlyRent?: number;
     homeAppreciationRate?: number;
     rentGrowthRate?: number;
+    investmentReturnRate?: number;
+    propertyTaxRate?: number;
+    hoaMonthly?: number;
+    maintenanceRate?: number;
+    closingCostRate?: number;
+    sellingCostRate?: number;
+    insuranceAnnual?: number;
+    federalTaxRate?: number;
+    stateTaxRate?: number;
+    otherSaltTaxes?: number;
+    otherItemizedDeductions?: number;
+    pmiRate?: number;
+    interestOnlyYears?: number;
+    armMargin?: number;
+    armPeriodicCap?: number;
+    armLifetimeCap?: number;
     years?: number;
+    filingStatus?: FilingStatus;
+    investDifference?: SurplusInvestor;
+    loanTermYears?: string;
+    loanType?: LoanType;
+    buydown?: Buydown;
+    armInitialYears?: string;
+    armAdjustmentMonths?: string;
+    armIndexPath?: string;
+    refinances?: RefinanceEvent[];
+    pmiCancelAtAppraisal?: boolean;
+    applyProp13?: boolean;
+    // Everything from an `s=` link; the legacy fields above are then unused
+    shared?: SharedState;
+    // Link values that could not be applied (unknown choices or flags)
+    issues?: ValidationIssue[];
+    // A problem with the link as a whole, e.g. an `s=` value that could not be decoded
+    notice?: string;
 }
 
 // Parse a number from string, returning undefined if invalid
@@ -32,42 +146,123 @@ function parseNumber(value: string | null): number | undefined {
     return isNaN(num) ? undefined : num;
 }
 
+// Parse a link parameter: malformed numbers become NaN so the form flags them
+function parseParam(value: string | null): number | undefined {
+    if (value === null) return undefined;
+    return parseNumber(value) ?? NaN;
+}
+
+// Parse one of a fixed set of choices, returning undefined if unknown
+function parseChoice<K extends ChoiceKey>(key: K, value: string | null): URLState[K] | undefined {
+    const allowed: readonly string[] = CHOICES[key];
+    return value !== null && allowed.includes(value) ? (value as URLState[K]) : undefined;
+}
+
+// Parse refinances, returning undefined if any part is malformed
+function parseRefinances(value: string | null): RefinanceEvent[] | undefined {
+    if (value === null) return undefined;
+    const events = value.split('~').map(part => part.split('_').map(Number));
+    if (events.some(fields => fields.length !== 5 || !fields.every(Number.isFinite))) {
+        return undefined;
+    }
+    return events.map(([year, rate, termYears, closingCost, cashOut]) => ({
+        year,
+        rate: rate / 100,
+        termYears,
+        closingCost,
+        cashOut,
+    }));
+}
+
+// Parse a 1/0 flag
+function parseFlag(value: string | null): boolean | undefined {
+    if (value === '1') return true;
+    if (value === '0') return false;
+    return undefined;
+}
+
 // Read state from URL query parameters
 export function readFromURL(): URLState {
     const params = new URLSearchParams(window.location.search);
+    const state: URLState = { issues: [] };
 
-    return {
-        purchasePrice: parseNumber(params.get(URL_KEYS.purchasePrice)),
-        downPaymentPercent: parseNumber(params.get(URL_KEYS.downPaymentPercent)),
-        mortgageRate: parseNumber(params.get(URL_KEYS.mortgageRate)),
-        monthlyRent: parseNumber(params.get(URL_KEYS.monthlyRent)),
-        homeAppreciationRate: parseNumber(params.get(URL_KEYS.homeAppreciationRate)),
-        rentGrowthRate: parseNumber(params.get(URL_KEYS.rentGrowthRate)),
-        years: parseNumber(params.get(URL_KEYS.years)),
-    };
-}
+    const encoded = params.get(STATE_KEY);
+    if (encoded !== null) {
+        const shared = decodeState(encoded);
+        if (shared) {
+            state.shared = shared;
+            return state;
+        }
+        state.notice = 'Could not read the inputs saved in this link; showing defaults instead.';
+    }
 
-// Build URL params from input elements
-function buildParams(elements: InputElements, years: number): URLSearchParams {
-    const params = new URLSearchParams();
-
-    const values: Record<URLKey, number | undefined> = {
-        purchasePrice: parseNumber(elements.purchasePrice.value),
-        downPaymentPercent: parseNumber(elements.downPaymentPercent.value),
-        mortgageRate: parseNumber(elements.mortgageRate.value),
-        monthlyRent: parseNumber(elements.monthlyRent.value),
-        homeAppreciationRate: parseNumber(elements.homeAppreciationRate.value),
-        rentGrowthRate: parseNumber(elements.rentGrowthRate.value),
-        years: years !== 10 ? years : undefined, // Only include if not default
+    for (const [key, param] of Object.entries(URL_KEYS) as Array<[URLKey, string]>) {
+        state[key] = parseParam(params.get(param));
+    }
+
+    // Unknown choices and flags are ignored with a warning on the field
+    const ignored = (
+        field: ChoiceKey | FlagKey | 'armIndexPath' | 'refinances',
+        param: string,
+        raw: string | null
+    ) => {
+        if (raw !== null) {
+            state.issues!.push({
+                field,
+                severity: 'warning',
+                message: `Ignored invalid link value ${param}=${raw}`,
+            });
+        }
     };
 
-    for (const [key, value] of Object.entries(values)) {
-        if (value !== undefined) {
-            params.set(URL_KEYS[key as URLKey], value.toString());
+    for (const [key, param] of Object.entries(CHOICE_KEYS) as Array<[ChoiceKey, string]>) {
+        const raw = params.get(param);
+        const value = parseChoice(key, raw);
+        if (value === undefined) {
+            ignored(key, param, raw);
+        } else {
+            (state as Record<ChoiceKey, string>)[key] = value;
+        }
+    }
+    for (const [key, param] of Object.entries(FLAG_KEYS) as Array<[FlagKey, string]>) {
+        const raw = params.get(param);
+        state[key] = parseFlag(raw);
+        if (state[key] === undefined) {
+            ignored(key, param, raw);
         }
     }
 
-    return params;
+    const indexPath = params.get(INDEX_PATH_KEY);
+    if (indexPath !== null && parseRateList(indexPath).every(Number.isFinite)) {
+        state.armIndexPath = indexPath;
+    } else {
+        ignored('armIndexPath', INDEX_PATH_KEY, indexPath);
+    }
+
+    const refinances = params.get(REFINANCE_KEY);
+    state.refinances = parseRefinances(refinances);
+    if (state.refinances === undefined) {
+        ignored('refinances', REFINANCE_KEY, refinances);
+    }
+
+    return state;
+}
+
+// Encode the current inputs, horizon, saved comparison scenarios and assumption presets
+function buildParams(elements: InputElements, years: number): URLSearchParams {
+    const scenarios = loadScenarios(window.localStorage).map(({ name, visible, inputs }) => ({
+        name,
+        visible,
+        inputs,
+    }));
+    const encoded = encodeState({
+        inputs: readInputs(elements),
+        years,
+        scenarios,
+        presets: loadPresets(window.localStorage),
+        showAllPresets: elements.showAllPresets.checked,
+    });
+    return new URLSearchParams({ [STATE_KEY]: encoded });
 }
 
 // Write current state to URL (without page reload)
@@ -79,29 +274,128 @@ export function writeToURL(elements: InputElements, years: number): void {
     window.history.replaceState({}, '', newURL);
 }
 
+// Offer to add a link's comparison scenarios and presets to the recipient's saved lists, in a
+// prompt above the chart that never holds up the page. Nothing is stored unless they agree,
+// and their own entries are never replaced.
+export function offerSharedLists(prompt: HTMLElement, shared: SharedState, onAdd: () => void): void {
+    const presets = shared.presets ?? [];
+    const parts = [
+        shared.scenarios.length ? plural(shared.scenarios.length, 'comparison scenario') : '',
+        presets.length ? plural(presets.length, 'assumption preset') : '',
+    ].filter(Boolean);
+    if (!parts.length) return;
+
+    const question = document.createElement('span');
+    question.textContent = `This link includes ${parts.join(' and ')}. Add them to your saved lists? ` +
+        'Any with the same name as one of yours are added with a "(shared)" suffix.';
+    const add = document.createElement('button');
+    add.type = 'button';
+    add.textContent = 'Add them';
+    const dismiss = document.createElement('button');
+    dismiss.type = 'button';
+    dismiss.className = 'link-button';
+    dismiss.textContent = 'No thanks';
+
+    const close = () => {
+        prompt.replaceChildren();
+        prompt.hidden = true;
+    };
+    add.addEventListener('click', () => {
+        importScenarios(window.localStorage, shared.scenarios);
+        importPresets(window.localStorage, presets);
+        close();
+        onAdd();
+    });
+    dismiss.addEventListener('click', close);
+
+    prompt.replaceChildren(question, add, dismiss);
+    prompt.hidden = false;
+}
+
+function plural(count: number, noun: string): string {
+    return `${count} ${noun}${count === 1 ? '' : 's'}`;
+}
+
 // Apply URL state to input elements
 export function applyURLState(elements: InputElements, state: URLState): void {
-    const mappings: Array<[keyof URLState, HTMLInputElement | HTMLElement]> = [
+    if (state.shared) {
+        writeInputs(elements, state.shared.inputs);
+        elements.yearsSlider.value = state.shared.years.toString();
+        elements.yearsValue.textContent = elements.yearsSlider.value;
+        elements.showAllPresets.checked = state.shared.showAllPresets ?? false;
+        return;
+    }
+
+    const mappings: Array<[Exclude<URLKey, 'years'>, HTMLInputElement]> = [
         ['purchasePrice', elements.purchasePrice],
         ['downPaymentPercent', elements.downPaymentPercent],
         ['mortgageRate', elements.mortgageRate],
         ['monthlyRent', elements.monthlyRent],
         ['homeAppreciationRate', elements.homeAppreciationRate],
         ['rentGrowthRate', elements.rentGrowthRate],
+        ['investmentReturnRate', elements.investmentReturnRate],
+        ['propertyTaxRate', elements.propertyTaxRate],
+        ['hoaMonthly', elements.hoaMonthly],
+        ['maintenanceRate', elements.maintenanceRate],
+        ['closingCostRate', elements.closingCostRate],
+        ['sellingCostRate', elements.sellingCostRate],
+        ['insuranceAnnual', elements.insuranceAnnual],
+        ['federalTaxRate', elements.federalTaxRate],
+        ['stateTaxRate', elements.stateTaxRate],
+        ['otherSaltTaxes', elements.otherSaltTaxes],
+        ['otherItemizedDeductions', elements.otherItemizedDeductions],
+        ['pmiRate', elements.pmiRate],
+        ['interestOnlyYears', elements.interestOnlyYears],
+        ['armMargin', elements.armMargin],
+        ['armPeriodicCap', elements.armPeriodicCap],
+        ['armLifetimeCap', elements.armLifetimeCap],
     ];
 
     for (const [key, element] of mappings) {
         const value = state[key];
-        if (value !== undefined && element instanceof HTMLInputElement) {
-            element.value = key === 'purchasePrice' || key === 'monthlyRent'
+        if (value === undefined) continue;
+
+        if (isNaN(value)) {
+            element.value = ''; // Malformed link value: leave blank for validation to flag
+        } else {
+            element.value = CURRENCY_KEYS.includes(key)
                 ? value.toLocaleString()
                 : value.toString();
         }
     }
 
-    if (state.years !== undefined) {
+    for (const key of Object.keys(CHOICE_KEYS) as ChoiceKey[]) {
+        const value = state[key];
+        if (value !== undefined) {
+            elements[key].value = value;
+        }
+    }
+    if (state.armIndexPath !== undefined) {
+        elements.armIndexPath.value = state.armIndexPath;
+    }
+    if (state.refinances !== undefined) {
+        setRefinanceRows(elements.refinances, state.refinances);
+    }
+    if (state.pmiCancelAtAppraisal !== undefined) {
+        elements.pmiCancelAtAppraisal.checked = state.pmiCancelAtAppraisal;
+    }
+    if (state.applyProp13 !== undefined) {
+        elements.applyProp13.checked = state.applyProp13;
+    }
+
+    if (state.years !== undefined && isFinite(state.years)) {
+        // The slider clamps to its own range and snaps to its quarter-year step
         elements.yearsSlider.value = state.years.toString();
-        elements.yearsValue.textContent = state.years.toString();
+        elements.yearsValue.textContent = elements.yearsSlider.value;
+    }
+}
+
+// Apply an imported scenario file (already validated and migrated) to the form
+export function applyScenarioFile(elements: InputElements, scenario: ScenarioFile): void {
+    writeInputs(elements, scenario.inputs);
+    if (scenario.years !== undefined) {
+        elements.yearsSlider.value = scenario.years.toString();
+        elements.yearsValue.textContent = elements.yearsSlider.value;
     }
 }
 
@@ -0,0 +1,133 @@
+import { CalculatorInputs } from './calculator';
+import { decodeState, encodeState, SharedState, URL_CODEC_VERSION } from './urlcodec';
+import { CLI_DEFAULT_INPUTS } from './commandline';
+
+const baseInputs = CLI_DEFAULT_INPUTS;
+
+const fullInputs: CalculatorInputs = {
+    ...baseInputs,
+    purchasePrice: 1234567,
+    mortgageRate: 0.06875,
+    homeAppreciationRate: 0.0333333333333,
+    filingStatus: 'married',
+    federalTaxRate: 0.32,
+    stateTaxRate: 0.093,
+    otherItemizedDeductions: 4200,
+    otherSaltTaxes: 1500,
+    pmiRate: 0.005,
+    pmiCancelAtAppraisal: true,
+    investDifference: 'renter',
+    applyProp13: false,
+    loan: {
+        type: 'arm',
+        termYears: 30,
+        interestOnlyYears: 5,
+        buydown: '2-1',
+        arm: {
+            initialYears: 5,
+            adjustmentMonths: 6,
+            margin: 0.0275,
+            indexPath: [0.041, 0.0385, 0.05],
+            periodicCap: 0.01,
+            lifetimeCap: 0.05,
+        },
+    },
+    refinances: [
+        { year: 4, rate: 0.0525, termYears: 30, closingCost: 6500 },
+        { year: 9, rate: 0.049, termYears: 15, closingCost: 4000, cashOut: 50000 },
+    ],
+    federalCapitalGainsRate: 0.238,
+    dividendYield: 0.018,
+    afterTaxNetWorth: false,
+    inflationRate: 0.03,
+    realDollars: true,
+    parcelTaxAnnual: 1300,
+    location: 'oakland',
+    priorAssessedValue: 420000,
+    transferredBaseValue: 610000,
+    soldHomePrice: 1800000,
+    transactionCosts: {
+        city: 'oakland',
+        buyerTransferTaxShare: 0.5,
+        listingCommissionRate: 0.045,
+        buyerAgentRate: 0.025,
+        titleEscrowRate: 0.004,
+        loanPoints: 0.01,
+        lenderFees: 1995,
+    },
+};
+
+function roundTrip(state: SharedState): SharedState | null {
+    return decodeState(encodeState(state));
+}
+
+describe('encodeState / decodeState', () => {
+    it('round-trips every input exactly', () => {
+        const state = { inputs: fullInputs, years: 17.5, scenarios: [] };
+        expect(roundTrip(state)).toEqual(state);
+    });
+
+    it('round-trips minimal inputs without adding fields', () => {
+        const decoded = roundTrip({ inputs: baseInputs, years: 10, scenarios: [] });
+        expect(decoded?.inputs).toStrictEqual(baseInputs);
+    });
+
+    it('round-trips saved comparison scenarios', () => {
+        const state = {
+            inputs: baseInputs,
+            years: 30,
+            scenarios: [
+                { name: 'Condo in Oakland ✓', visible: true, inputs: { ...baseInputs, purchasePrice: 750000 } },
+                { name: 'Full options', visible: false, inputs: fullInputs },
+            ],
+        };
+        expect(roundTrip(state)).toEqual(state);
+    });
+
+    it('round-trips assumption presets and the show-all mode, leaving them off when unused', () => {
+        const state = {
+            inputs: baseInputs,
+            years: 10,
+            scenarios: [],
+            presets: [{
+                name: 'Flat rents',
+                homeAppreciationRate: 0.035,
+                rentGrowthRate: 0,
+                investmentReturnRate: 0.065,
+                maintenanceRate: 0.0125,
+            }],
+            showAllPresets: true,
+        };
+        expect(roundTrip(state)).toEqual(state);
+        expect(roundTrip({ inputs: baseInputs, years: 10, scenarios: [], presets: [], showAllPresets: false }))
+            .not.toHaveProperty('presets');
+    });
+
+    it('produces URL-safe text with a leading version byte', () => {
+        const encoded = encodeState({ inputs: fullInputs, years: 10, scenarios: [] });
+        expect(encoded).toMatch(/^[A-Za-z0-9_-]+$/);
+        expect(Buffer.from(encoded, 'base64url')[0]).toBe(URL_CODEC_VERSION);
+    });
+
+    it('rejects newer versions', () => {
+        const bytes = Buffer.from(encodeState({ inputs: baseInputs, years: 10, scenarios: [] }), 'base64url');
+        bytes[0] = URL_CODEC_VERSION + 1;
+        expect(decodeState(bytes.toString('base64url'))).toBeNull();
+    });
+
+    it('rejects corrupt or mistyped payloads', () => {
+        const encoded = encodeState({ inputs: baseInputs, years: 10, scenarios: [] });
+        expect(decodeState(encoded.slice(0, -6))).toBeNull();
+        expect(decodeState('not base64!')).toBeNull();
+
+        const payload = (value: unknown) => Buffer.concat([
+            Buffer.from([URL_CODEC_VERSION]),
+            Buffer.from(JSON.stringify(value)),
+        ]).toString('base64url');
+        expect(decodeState(payload([[100, 20], 10, []]))).toBeNull(); // Missing fields
+        expect(decodeState(payload([['a', 20, 0.06, 3000, 0.04, 0.03, 0.07, 0.012, 0, 0.01, 0.03, 0.06, 2000], 10, []]))).toBeNull();
+        expect(decodeState(payload([[1e6, 20, 0.06, 3000, 0.04, 0.03, 0.07, 0.012, 0, 0.01, 0.03, 0.06, 2000], 40, []]))).toBeNull();
+        expect(decodeState(payload([[1e6, 20, 0.06, 3000, 0.04, 0.03, 0.07, 0.012, 0, 0.01, 0.03, 0.06, 2000], 10, []]))).not.toBeNull();
+        expect(decodeState(payload([[1e6, 20, 0.06, 3000, 0.04, 0.03, 0.07, 0.012, 0, 0.01, 0.03, 0.06, 2000], 10, [], [['Bad', 0.04]], false]))).toBeNull();
+    });
+});
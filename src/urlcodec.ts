@@ -0,0 +1,218 @@
+// Compact, versioned encoding of the full calculator state for the `s=` URL parameter
+//
+// Layout: base64url( [version byte] + UTF-8 JSON payload ). The payload packs each object
+// into an array in a fixed field order, so keys are never repeated:
+//   [inputs, years, [[name, visible, inputs], ...], [[preset name, ...values], ...], showAllPresets]
+// The two preset elements are left off when unused; links from before them still decode.
+
+import { CalculatorInputs } from './calculator.js';
+import { AssumptionPreset, isAssumptionPreset, PRESET_FIELDS } from './presets.js';
+import { checkInputsShape, isValidHorizon } from './scenariofile.js';
+
+export const URL_CODEC_VERSION = 1;
+
+// A saved comparison scenario carried in a link
+export interface SharedScenario {
+    name: string;
+    visible: boolean;
+    inputs: CalculatorInputs;
+}
+
+export interface SharedState {
+    inputs: CalculatorInputs;
+    years: number;
+    scenarios: SharedScenario[];
+    presets?: AssumptionPreset[]; // The sender's own assumption presets
+    showAllPresets?: boolean; // Chart draws every built-in preset at once
+}
+
+// Field order is part of the format: append new fields only, and bump the version for
+// anything else
+const INPUT_FIELDS = [
+    'purchasePrice',
+    'downPaymentPercent',
+    'mortgageRate',
+    'monthlyRent',
+    'homeAppreciationRate',
+    'rentGrowthRate',
+    'investmentReturnRate',
+    'propertyTaxRate',
+    'hoaMonthly',
+    'maintenanceRate',
+    'closingCostRate',
+    'sellingCostRate',
+    'insuranceAnnual',
+    'filingStatus',
+    'federalTaxRate',
+    'stateTaxRate',
+    'otherItemizedDeductions',
+    'otherSaltTaxes',
+    'pmiRate',
+    'pmiCancelAtAppraisal',
+    'investDifference',
+    'applyProp13',
+    'loan',
+    'refinances',
+    'federalCapitalGainsRate',
+    'transactionCosts',
+    'dividendYield',
+    'afterTaxNetWorth',
+    'inflationRate',
+    'realDollars',
+    'parcelTaxAnnual',
+    'location',
+    'priorAssessedValue',
+    'transferredBaseValue',
+    'soldHomePrice',
+] as const satisfies ReadonlyArray<keyof CalculatorInputs>;
+
+const LOAN_FIELDS = ['type', 'termYears', 'interestOnlyYears', 'buydown', 'arm'] as const;
+const ARM_FIELDS = [
+    'initialYears',
+    'adjustmentMonths',
+    'margin',
+    'indexPath',
+    'periodicCap',
+    'lifetimeCap',
+] as const;
+const REFINANCE_FIELDS = ['year', 'rate', 'termYears', 'closingCost', 'cashOut'] as const;
+const TRANSACTION_FIELDS = [
+    'city',
+    'buyerTransferTaxShare',
+    'listingCommissionRate',
+    'buyerAgentRate',
+    'titleEscrowRate',
+    'loanPoints',
+    'lenderFees',
+] as const;
+
+interface Codec {
+    pack(value: unknown): unknown;
+    unpack(packed: unknown): unknown;
+}
+
+// Object <-> positional array; missing fields become null and trailing nulls are dropped
+function objectCodec(fields: readonly string[], nested: Record<string, Codec> = {}): Codec {
+    return {
+        pack(value) {
+            const record = value as Record<string, unknown>;
+            const packed = fields.map(field => {
+                const fieldValue = record[field];
+                if (fieldValue === undefined) return null;
+                return nested[field] ? nested[field].pack(fieldValue) : fieldValue;
+            });
+            while (packed.length > 0 && packed[packed.length - 1] === null) {
+                packed.pop();
+            }
+            return packed;
+        },
+        unpack(packed) {
+            if (!Array.isArray(packed) || packed.length > fields.length) {
+                throw new Error('Malformed record');
+            }
+            const record: Record<string, unknown> = {};
+            packed.forEach((fieldValue, index) => {
+                if (fieldValue === null) return;
+                const field = fields[index];
+                record[field] = nested[field] ? nested[field].unpack(fieldValue) : fieldValue;
+            });
+            return record;
+        },
+    };
+}
+
+function listCodec(item: Codec): Codec {
+    return {
+        pack: value => (value as unknown[]).map(item.pack),
+        unpack(packed) {
+            if (!Array.isArray(packed)) throw new Error('Malformed list');
+            return packed.map(item.unpack);
+        },
+    };
+}
+
+const INPUTS_CODEC = objectCodec(INPUT_FIELDS, {
+    loan: objectCodec(LOAN_FIELDS, { arm: objectCodec(ARM_FIELDS) }),
+    refinances: listCodec(objectCodec(REFINANCE_FIELDS)),
+    transactionCosts: objectCodec(TRANSACTION_FIELDS),
+});
+
+const PRESET_CODEC = objectCodec(['name', ...PRESET_FIELDS]);
+
+function toBase64Url(bytes: Uint8Array): string {
+    let binary = '';
+    bytes.forEach(byte => {
+        binary += String.fromCharCode(byte);
+    });
+    return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(text: string): Uint8Array {
+    const base64 = text.replace(/-/g, '+').replace(/_/g, '/');
+    const binary = atob(base64 + '==='.slice((base64.length + 3) % 4));
+    return Uint8Array.from(binary, char => char.charCodeAt(0));
+}
+
+export function encodeState(state: SharedState): string {
+    const payload: unknown[] = [
+        INPUTS_CODEC.pack(state.inputs),
+        state.years,
+        state.scenarios.map(s => [s.name, s.visible, INPUTS_CODEC.pack(s.inputs)]),
+    ];
+    if (state.presets?.length || state.showAllPresets) {
+        payload.push((state.presets ?? []).map(PRESET_CODEC.pack), state.showAllPresets ?? false);
+    }
+    const json = new TextEncoder().encode(JSON.stringify(payload));
+    const bytes = new Uint8Array(json.length + 1);
+    bytes[0] = URL_CODEC_VERSION;
+    bytes.set(json, 1);
+    return toBase64Url(bytes);
+}
+
+function unpackInputs(packed: unknown): CalculatorInputs {
+    const inputs = INPUTS_CODEC.unpack(packed);
+    if (checkInputsShape(inputs).length > 0) {
+        throw new Error('Malformed inputs');
+    }
+    return inputs as CalculatorInputs;
+}
+
+// Decode an `s=` value, or null if it is corrupt or from a newer version
+export function decodeState(encoded: string): SharedState | null {
+    try {
+        const bytes = fromBase64Url(encoded);
+        if (bytes[0] !== URL_CODEC_VERSION) {
+            return null;
+        }
+        const [inputs, years, scenarios, presets, showAllPresets] =
+            JSON.parse(new TextDecoder().decode(bytes.subarray(1)));
+        if (!isValidHorizon(years) || !Array.isArray(scenarios)) {
+            return null;
+        }
+        if (presets !== undefined && (!Array.isArray(presets) || typeof showAllPresets !== 'boolean')) {
+            return null;
+        }
+        return {
+            inputs: unpackInputs(inputs),
+            years,
+            scenarios: scenarios.map(([name, visible, scenarioInputs]: unknown[]) => {
+                if (typeof name !== 'string' || typeof visible !== 'boolean') {
+                    throw new Error('Malformed scenario');
+                }
+                return { name, visible, inputs: unpackInputs(scenarioInputs) };
+            }),
+            ...(presets !== undefined && {
+                presets: presets.map((packed: unknown) => {
+                    const preset = PRESET_CODEC.unpack(packed);
+                    if (!isAssumptionPreset(preset)) {
+                        throw new Error('Malformed preset');
+                    }
+                    return preset;
+                }),
+                showAllPresets,
+            }),
+        };
+    } catch {
+        return null;
+    }
+}
@@ -0,0 +1,107 @@
+import { parseRateList } from './inputs';
+import { validateField, validateInputs, validateLoan } from './validation';
+import { DEFAULT_ARM } from './amortization';
+import { CLI_DEFAULT_INPUTS } from './commandline';
+
+describe('validateInputs', () => {
+    const inputs = CLI_DEFAULT_INPUTS;
+
+    it('accepts reasonable inputs', () => {
+        expect(validateInputs(inputs)).toEqual([]);
+    });
+
+    it('rejects impossible values as errors', () => {
+        const issues = validateInputs({ ...inputs, purchasePrice: 0, downPaymentPercent: 150 });
+
+        expect(issues).toEqual([
+            { field: 'purchasePrice', severity: 'error', message: 'Purchase price must be greater than $0' },
+            { field: 'downPaymentPercent', severity: 'error', message: 'Down payment must be between 0% and 100%' },
+        ]);
+    });
+
+    it('flags malformed numbers as errors', () => {
+        const issues = validateInputs({ ...inputs, monthlyRent: NaN });
+        expect(issues).toEqual([
+            { field: 'monthlyRent', severity: 'error', message: 'Monthly rent must be a number' },
+        ]);
+    });
+
+    it('only warns about unrealistic values', () => {
+        const issues = validateInputs({ ...inputs, homeAppreciationRate: 0.35 });
+        expect(issues).toEqual([
+            {
+                field: 'homeAppreciationRate',
+                severity: 'warning',
+                message: 'Home appreciation rate seems unrealistic (-20% to 30%)',
+            },
+        ]);
+    });
+
+    it('skips optional fields that are not set', () => {
+        expect(validateInputs({ ...inputs, pmiRate: undefined })).toEqual([]);
+        expect(validateInputs({ ...inputs, pmiRate: 0.08 })[0].severity).toBe('error');
+    });
+});
+
+describe('validateField', () => {
+    it('describes non-negative fields', () => {
+        expect(validateField('hoaMonthly', -100)?.message).toBe('HOA fees cannot be negative');
+        expect(validateField('hoaMonthly', 9000)?.severity).toBe('warning');
+        expect(validateField('hoaMonthly', 450)).toBeNull();
+    });
+});
+
+describe('validateLoan', () => {
+    it('requires the interest-only and fixed periods to fit the term', () => {
+        const issues = validateLoan({
+            type: 'arm',
+            termYears: 10,
+            interestOnlyYears: 10,
+            arm: { ...DEFAULT_ARM, initialYears: 10 },
+        });
+        expect(issues.map(i => i.field)).toEqual(['interestOnlyYears', 'armInitialYears']);
+    });
+
+    it('requires a loan term above zero and at most 40 years', () => {
+        expect(validateLoan({ type: 'fixed', termYears: 0 })).toEqual([
+            { field: 'loanTermYears', severity: 'error', message: 'Loan term must be between 0 years and 40 years' },
+        ]);
+        expect(validateLoan({ type: 'fixed', termYears: 41 }).map(i => i.field)).toEqual(['loanTermYears']);
+        expect(validateLoan({ type: 'fixed', termYears: 40 })).toEqual([]);
+    });
+
+    it('requires whole-number ARM periods, adjusting at least monthly', () => {
+        const fields = (arm: Partial<typeof DEFAULT_ARM>) =>
+            validateLoan({ type: 'arm', termYears: 30, arm: { ...DEFAULT_ARM, ...arm } }).map(i => i.field);
+
+        expect(fields({ initialYears: -5 })).toEqual(['armInitialYears']);
+        expect(fields({ initialYears: 5.5 })).toEqual(['armInitialYears']);
+        expect(fields({ adjustmentMonths: 0 })).toEqual(['armAdjustmentMonths']);
+        expect(validateLoan({ type: 'arm', termYears: 30, arm: { ...DEFAULT_ARM, adjustmentMonths: 1.5 } })).toEqual([
+            {
+                field: 'armAdjustmentMonths',
+                severity: 'error',
+                message: 'ARM adjustment period must be a whole number of months',
+            },
+        ]);
+        expect(validateLoan({ type: 'arm', termYears: 30, arm: { ...DEFAULT_ARM, adjustmentMonths: 0 } })[0].message)
+            .toBe('ARM adjustment period must be between 1 month and 60 months');
+        expect(fields({ adjustmentMonths: 6 })).toEqual([]);
+    });
+
+    it('flags a malformed index path', () => {
+        const arm = { ...DEFAULT_ARM, indexPath: parseRateList('4, abc') };
+        expect(validateLoan({ type: 'arm', termYears: 30, arm })).toEqual([
+            {
+                field: 'armIndexPath',
+                severity: 'error',
+                message: 'Expected index must be a list of rates, e.g. 4, 4.5, 5',
+            },
+        ]);
+    });
+
+    it('parses percentage lists', () => {
+        expect(parseRateList('4, 4.5  5%')).toEqual([0.04, 0.045, 0.05]);
+        expect(parseRateList('')).toEqual([]);
+    });
+});
@@ -0,0 +1,292 @@
+// Input validation: hard limits are errors, realistic ranges are warnings
+
+import { LoanStructure, RefinanceEvent } from './amortization.js';
+import { CalculatorInputs } from './calculator.js';
+import { formatCurrency } from './format.js';
+import { TransactionCosts } from './transactions.js';
+
+// Numeric calculator fields (everything validated against a range)
+export type NumericField = {
+    [K in keyof CalculatorInputs]-?: NonNullable<CalculatorInputs[K]> extends number ? K : never;
+}[keyof CalculatorInputs];
+
+// Loan structure fields, validated separately since they live under inputs.loan
+export type LoanField =
+    | 'loanTermYears'
+    | 'loanType'
+    | 'interestOnlyYears'
+    | 'buydown'
+    | 'armInitialYears'
+    | 'armAdjustmentMonths'
+    | 'armMargin'
+    | 'armIndexPath'
+    | 'armPeriodicCap'
+    | 'armLifetimeCap';
+
+// Itemized transaction cost fields, which live under inputs.transactionCosts
+export type TransactionField =
+    | 'transferTaxCity'
+    | 'buyerTransferTaxShare'
+    | 'listingCommissionRate'
+    | 'buyerAgentRate'
+    | 'titleEscrowRate'
+    | 'loanPoints'
+    | 'lenderFees';
+
+export interface ValidationIssue {
+    field: keyof CalculatorInputs | LoanField | TransactionField;
+    severity: 'error' | 'warning'; // Errors block the calculation, warnings only caution
+    message: string;
+}
+
+// Hard limits (min/max) are errors; the realistic range only warns
+interface FieldRule {
+    label: string;
+    // rate = decimal shown as %, percent = already in %
+    unit: 'currency' | 'rate' | 'percent' | 'years' | 'months';
+    min?: number;
+    max?: number;
+    exclusiveMin?: boolean;
+    integer?: boolean; // Whole numbers only
+    realisticMin?: number;
+    realisticMax?: number;
+}
+
+export const VALIDATION_RULES: Record<NumericField, FieldRule> = {
+    purchasePrice: { label: 'Purchase price', unit: 'currency', min: 0, exclusiveMin: true, realisticMin: 100000, realisticMax: 20000000 },
+    downPaymentPercent: { label: 'Down payment', unit: 'percent', min: 0, max: 100, realisticMin: 3 },
+    mortgageRate: { label: 'Mortgage rate', unit: 'rate', min: 0, max: 0.25, realisticMin: 0.02, realisticMax: 0.12 },
+    monthlyRent: { label: 'Monthly rent', unit: 'currency', min: 0, realisticMax: 50000 },
+    homeAppreciationRate: { label: 'Home appreciation rate', unit: 'rate', min: -1, max: 1, realisticMin: -0.2, realisticMax: 0.3 },
+    rentGrowthRate: { label: 'Rent growth rate', unit: 'rate', min: -1, max: 1, realisticMin: -0.1, realisticMax: 0.2 },
+    investmentReturnRate: { label: 'Investment return rate', unit: 'rate', min: -1, max: 1, realisticMin: -0.2, realisticMax: 0.3 },
+    dividendYield: { label: 'Dividend yield', unit: 'rate', min: 0, max: 0.2, realisticMax: 0.05 },
+    propertyTaxRate: { label: 'Property tax rate', unit: 'rate', min: 0, max: 0.1, realisticMin: 0.005, realisticMax: 0.03 },
+    parcelTaxAnnual: { label: 'Parcel taxes', unit: 'currency', min: 0, realisticMax: 10000 },
+    priorAssessedValue: { label: "Seller's assessed value", unit: 'currency', min: 0 },
+    transferredBaseValue: { label: 'Transferred base value', unit: 'currency', min: 0 },
+    soldHomePrice: { label: 'Sale price of home sold', unit: 'currency', min: 0, exclusiveMin: true },
+    hoaMonthly: { label: 'HOA fees', unit: 'currency', min: 0, realisticMax: 5000 },
+    maintenanceRate: { label: 'Maintenance', unit: 'rate', min: 0, max: 0.2, realisticMax: 0.05 },
+    closingCostRate: { label: 'Closing costs', unit: 'rate', min: 0, max: 0.2, realisticMax: 0.06 },
+    sellingCostRate: { label: 'Selling costs', unit: 'rate', min: 0, max: 0.2, realisticMax: 0.1 },
+    insuranceAnnual: { label: 'Insurance', unit: 'currency', min: 0, realisticMax: 50000 },
+    federalTaxRate: { label: 'Federal tax bracket', unit: 'rate', min: 0, max: 0.37 },
+    stateTaxRate: { label: 'California tax bracket', unit: 'rate', min: 0, max: 0.133 },
+    otherItemizedDeductions: { label: 'Other itemized deductions', unit: 'currency', min: 0 },
+    otherSaltTaxes: { label: 'State income tax paid', unit: 'currency', min: 0 },
+    federalCapitalGainsRate: { label: 'Federal capital gains rate', unit: 'rate', min: 0, max: 0.3 },
+    inflationRate: { label: 'Inflation rate', unit: 'rate', min: -0.1, max: 0.5, realisticMin: 0, realisticMax: 0.1 },
+    pmiRate: { label: 'PMI rate', unit: 'rate', min: 0, max: 0.05, realisticMax: 0.02 },
+};
+
+type LoanNumericField =
+    | 'loanTermYears'
+    | 'interestOnlyYears'
+    | 'armInitialYears'
+    | 'armAdjustmentMonths'
+    | 'armMargin'
+    | 'armPeriodicCap'
+    | 'armLifetimeCap';
+
+export const LOAN_VALIDATION_RULES: Record<LoanNumericField, FieldRule> = {
+    loanTermYears: { label: 'Loan term', unit: 'years', min: 0, exclusiveMin: true, max: 40 },
+    interestOnlyYears: { label: 'Interest-only period', unit: 'years', min: 0, max: 10 },
+    // The schedule steps by whole months, and a zero adjustment period would never adjust
+    armInitialYears: { label: 'ARM fixed period', unit: 'years', min: 1, max: 30, integer: true },
+    armAdjustmentMonths: { label: 'ARM adjustment period', unit: 'months', min: 1, max: 60, integer: true },
+    armMargin: { label: 'ARM margin', unit: 'rate', min: 0, max: 0.1, realisticMin: 0.015, realisticMax: 0.04 },
+    armPeriodicCap: { label: 'Periodic cap', unit: 'rate', min: 0, max: 0.1 },
+    armLifetimeCap: { label: 'Lifetime cap', unit: 'rate', min: 0, max: 0.15 },
+};
+
+type TransactionNumericField = Exclude<TransactionField, 'transferTaxCity'>;
+
+export const TRANSACTION_VALIDATION_RULES: Record<TransactionNumericField, FieldRule> = {
+    buyerTransferTaxShare: { label: 'Buyer share of transfer tax', unit: 'rate', min: 0, max: 1 },
+    listingCommissionRate: { label: 'Listing commission', unit: 'rate', min: 0, max: 0.1, realisticMax: 0.06 },
+    buyerAgentRate: { label: 'Buyer agent fee', unit: 'rate', min: 0, max: 0.1, realisticMax: 0.03 },
+    titleEscrowRate: { label: 'Title and escrow', unit: 'rate', min: 0, max: 0.05, realisticMax: 0.015 },
+    loanPoints: { label: 'Loan points', unit: 'rate', min: 0, max: 0.05, realisticMax: 0.03 },
+    lenderFees: { label: 'Lender fees', unit: 'currency', min: 0, realisticMax: 20000 },
+};
+
+// Labels are prefixed with the refinance's position in the list
+const REFINANCE_RULES: Record<keyof RefinanceEvent, FieldRule> = {
+    year: { label: 'year', unit: 'years', min: 1, max: 40 },
+    rate: { label: 'rate', unit: 'rate', min: 0, max: 0.25, realisticMin: 0.02, realisticMax: 0.12 },
+    termYears: { label: 'term', unit: 'years', min: 1, max: 40 },
+    closingCost: { label: 'closing cost', unit: 'currency', min: 0 },
+    cashOut: { label: 'cash-out', unit: 'currency', min: 0 },
+};
+
+function formatRuleValue(rule: FieldRule, value: number): string {
+    if (rule.unit === 'currency') return formatCurrency(value);
+    if (rule.unit === 'years' || rule.unit === 'months') {
+        return `${value} ${value === 1 ? rule.unit.slice(0, -1) : rule.unit}`;
+    }
+    const percent = rule.unit === 'rate' ? value * 100 : value;
+    return `${parseFloat(percent.toFixed(2))}%`;
+}
+
+// Check one value against its field's rule
+export function validateField(field: NumericField, value: number): ValidationIssue | null {
+    return checkRule(field, VALIDATION_RULES[field], value);
+}
+
+function checkRule(
+    field: ValidationIssue['field'],
+    rule: FieldRule,
+    value: number
+): ValidationIssue | null {
+    const fmt = (v: number) => formatRuleValue(rule, v);
+
+    if (!Number.isFinite(value)) {
+        return { field, severity: 'error', message: `${rule.label} must be a number` };
+    }
+
+    const belowMin = rule.min !== undefined &&
+        (rule.exclusiveMin ? value <= rule.min : value < rule.min);
+    const aboveMax = rule.max !== undefined && value > rule.max;
+    if (belowMin || aboveMax) {
+        let message: string;
+        if (rule.min !== undefined && rule.max !== undefined) {
+            message = `${rule.label} must be between ${fmt(rule.min)} and ${fmt(rule.max)}`;
+        } else if (rule.max !== undefined) {
+            message = `${rule.label} must be at most ${fmt(rule.max)}`;
+        } else if (rule.exclusiveMin) {
+            message = `${rule.label} must be greater than ${fmt(rule.min!)}`;
+        } else if (rule.min === 0) {
+            message = `${rule.label} cannot be negative`;
+        } else {
+            message = `${rule.label} must be at least ${fmt(rule.min!)}`;
+        }
+        return { field, severity: 'error', message };
+    }
+    if (rule.integer && !Number.isInteger(value)) {
+        const message = `${rule.label} must be a whole number of ${rule.unit}`;
+        return { field, severity: 'error', message };
+    }
+
+    const belowRealistic = rule.realisticMin !== undefined && value < rule.realisticMin;
+    const aboveRealistic = rule.realisticMax !== undefined && value > rule.realisticMax;
+    if (belowRealistic || aboveRealistic) {
+        let range: string;
+        if (rule.realisticMin !== undefined && rule.realisticMax !== undefined) {
+            range = `${fmt(rule.realisticMin)} to ${fmt(rule.realisticMax)}`;
+        } else if (rule.realisticMax !== undefined) {
+            range = `usually under ${fmt(rule.realisticMax)}`;
+        } else {
+            range = `usually at least ${fmt(rule.realisticMin!)}`;
+        }
+        return { field, severity: 'warning', message: `${rule.label} seems unrealistic (${range})` };
+    }
+
+    return null;
+}
+
+// Validate inputs and return any errors and warnings, one per field at most
+export function validateInputs(inputs: CalculatorInputs): ValidationIssue[] {
+    const issues: ValidationIssue[] = [];
+
+    for (const field of Object.keys(VALIDATION_RULES) as NumericField[]) {
+        const value = inputs[field];
+        if (value === undefined) continue; // Optional fields that are not modeled
+        const issue = validateField(field, value);
+        if (issue) issues.push(issue);
+    }
+
+    if (inputs.loan) {
+        issues.push(...validateLoan(inputs.loan));
+    }
+    if (inputs.refinances) {
+        issues.push(...validateRefinances(inputs.refinances));
+    }
+    if (inputs.transactionCosts) {
+        issues.push(...validateTransactionCosts(inputs.transactionCosts));
+    }
+
+    return issues;
+}
+
+// Validate the loan structure's numeric fields and how they fit the term
+export function validateLoan(loan: LoanStructure): ValidationIssue[] {
+    const issues: ValidationIssue[] = [];
+    const check = (field: LoanNumericField, value: number) => {
+        const issue = checkRule(field, LOAN_VALIDATION_RULES[field], value);
+        if (issue) issues.push(issue);
+        return issue;
+    };
+
+    // A term of zero would leave no payments, silently dropping the mortgage
+    // Periods are only compared with a valid term
+    const termIssue = check('loanTermYears', loan.termYears);
+
+    const interestOnlyYears = loan.interestOnlyYears ?? 0;
+    if (!check('interestOnlyYears', interestOnlyYears) && !termIssue && interestOnlyYears >= loan.termYears) {
+        issues.push({
+            field: 'interestOnlyYears',
+            severity: 'error',
+            message: 'Interest-only period must be shorter than the loan term',
+        });
+    }
+
+    if (loan.type === 'arm' && loan.arm) {
+        const arm = loan.arm;
+        if (!check('armInitialYears', arm.initialYears) && !termIssue && arm.initialYears >= loan.termYears) {
+            issues.push({
+                field: 'armInitialYears',
+                severity: 'error',
+                message: 'ARM fixed period must be shorter than the loan term',
+            });
+        }
+        check('armAdjustmentMonths', arm.adjustmentMonths);
+        check('armMargin', arm.margin);
+        check('armPeriodicCap', arm.periodicCap);
+        check('armLifetimeCap', arm.lifetimeCap);
+
+        if (arm.indexPath.some(rate => !Number.isFinite(rate))) {
+            issues.push({
+                field: 'armIndexPath',
+                severity: 'error',
+                message: 'Expected index must be a list of rates, e.g. 4, 4.5, 5',
+            });
+        } else if (arm.indexPath.some(rate => rate < 0 || rate > 0.2)) {
+            issues.push({
+                field: 'armIndexPath',
+                severity: 'error',
+                message: 'Expected index rates must be between 0% and 20%',
+            });
+        }
+    }
+
+    return issues;
+}
+
+// Validate each refinance; all issues are reported on the refinance list
+export function validateRefinances(events: RefinanceEvent[]): ValidationIssue[] {
+    const issues: ValidationIssue[] = [];
+    events.forEach((event, index) => {
+        for (const [field, rule] of Object.entries(REFINANCE_RULES) as Array<[keyof RefinanceEvent, FieldRule]>) {
+            const value = event[field];
+            if (value === undefined) continue;
+            const issue = checkRule(
+                'refinances',
+                { ...rule, label: `Refinance ${index + 1} ${rule.label}` },
+                value
+            );
+            if (issue) issues.push(issue);
+        }
+    });
+    return issues;
+}
+
+// Validate itemized buy and sell costs
+export function validateTransactionCosts(costs: TransactionCosts): ValidationIssue[] {
+    const issues: ValidationIssue[] = [];
+    for (const [field, rule] of Object.entries(TRANSACTION_VALIDATION_RULES) as Array<[TransactionNumericField, FieldRule]>) {
+        const issue = checkRule(field, rule, costs[field]);
+        if (issue) issues.push(issue);
+    }
+    return issues;
+}